@@ -0,0 +1,115 @@
+// Chain definitions shared by ponder.config.ts, the API and the WebSocket server.
+//
+// PONDER_CHAINS selects which chains to index. It accepts either a comma-separated
+// list of preset names ("monad_testnet,monad_mainnet") or a JSON array of chain
+// objects ('[{"name":"monad_devnet","id":20143,"rpc":"http://127.0.0.1:8545"}]').
+// Per-chain RPC URLs and start blocks can be overridden with PONDER_RPC_URL_<id>
+// and PONDER_START_BLOCK_<id>.
+
+export interface ChainDefinition {
+  name: string;
+  id: number;
+  rpc: string;
+  startBlock?: number;
+}
+
+const MONAD_TESTNET: ChainDefinition = {
+  name: "monad_testnet",
+  id: 10143,
+  rpc: "https://testnet-rpc.monad.xyz",
+};
+
+export const CHAIN_PRESETS: Record<string, ChainDefinition> = {
+  monad_testnet: MONAD_TESTNET,
+  monad_mainnet: {
+    name: "monad_mainnet",
+    id: 143,
+    rpc: "https://rpc.monad.xyz",
+  },
+  monad_devnet: {
+    name: "monad_devnet",
+    id: 20143,
+    rpc: "http://127.0.0.1:8545",
+  },
+};
+
+// A JSON chain entry, filled in from the preset with the same name
+function parseChainEntry(entry: unknown): ChainDefinition {
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    throw new Error(`Invalid chain in PONDER_CHAINS: ${JSON.stringify(entry)}`);
+  }
+  const fields = entry as Record<string, unknown>;
+  const preset = typeof fields.name === "string" ? CHAIN_PRESETS[fields.name] : undefined;
+  const { name, id, rpc, startBlock } = { ...preset, ...fields };
+  if (
+    typeof name !== "string" ||
+    typeof id !== "number" ||
+    !Number.isSafeInteger(id) ||
+    typeof rpc !== "string" ||
+    (startBlock !== undefined && (typeof startBlock !== "number" || !Number.isSafeInteger(startBlock)))
+  ) {
+    throw new Error(`Invalid chain in PONDER_CHAINS: ${JSON.stringify(entry)}`);
+  }
+  return { name, id, rpc, startBlock };
+}
+
+function parseChainList(value: string): ChainDefinition[] {
+  if (value.trim().startsWith("[")) {
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed)) {
+      throw new Error("PONDER_CHAINS must be a JSON array of chains");
+    }
+    return parsed.map(parseChainEntry);
+  }
+
+  return value
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0)
+    .map((name) => {
+      const preset = CHAIN_PRESETS[name];
+      if (!preset) {
+        throw new Error(`Unknown chain "${name}" in PONDER_CHAINS. Known chains: ${Object.keys(CHAIN_PRESETS).join(", ")}`);
+      }
+      return { ...preset };
+    });
+}
+
+function applyEnvOverrides(chain: ChainDefinition): ChainDefinition {
+  const rpc = process.env[`PONDER_RPC_URL_${chain.id}`];
+  const startBlock = process.env[`PONDER_START_BLOCK_${chain.id}`];
+  return {
+    ...chain,
+    rpc: rpc || chain.rpc,
+    startBlock: startBlock ? parseInt(startBlock) : chain.startBlock,
+  };
+}
+
+// Resolve the configured chains. Without PONDER_CHAINS this is the Monad testnet
+// alone, honouring the original PONDER_RPC_URL_1 and PONDER_START_BLOCK variables.
+export function resolveChains(): ChainDefinition[] {
+  const configured = process.env.PONDER_CHAINS;
+
+  if (!configured) {
+    return [
+      applyEnvOverrides({
+        ...MONAD_TESTNET,
+        rpc: process.env.PONDER_RPC_URL_1 || MONAD_TESTNET.rpc,
+        startBlock: process.env.PONDER_START_BLOCK ? parseInt(process.env.PONDER_START_BLOCK) : undefined,
+      }),
+    ];
+  }
+
+  const chains = parseChainList(configured).map(applyEnvOverrides);
+  if (chains.length === 0) {
+    throw new Error("PONDER_CHAINS does not name any chains");
+  }
+  return chains;
+}
+
+export const chains = resolveChains();
+
+// Look up a configured chain by name or numeric id
+export function findChain(nameOrId: string): ChainDefinition | undefined {
+  return chains.find((chain) => chain.name === nameOrId || String(chain.id) === nameOrId);
+}
@@ -0,0 +1,79 @@
+import pg from "pg";
+import { parseArgs } from "node:util";
+import { chains } from "./chains";
+import { getIndexerStatus, type ChainStatus } from "./src/status";
+
+// Indexer status from the command line, with the same checks as GET /status/app.
+// Exits 1 when a chain is behind or its status cannot be determined, and 2 when
+// the check itself fails, so it can serve as a container healthcheck:
+//
+//   npm run status -- [--max-lag-blocks 10] [--max-lag-seconds 60] [--json]
+//
+// DATABASE_URL and DATABASE_SCHEMA (default "public") select Ponder's tables;
+// PONDER_CHAINS and PONDER_RPC_URL_<id> (or PONDER_RPC_URL_1) the chains and RPCs.
+
+const { values: args } = parseArgs({
+  options: {
+    "max-lag-blocks": { type: "string" },
+    "max-lag-seconds": { type: "string" },
+    json: { type: "boolean", default: false },
+  },
+});
+
+function parseLimit(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error(`--${name} must be a non-negative integer`);
+  }
+  return limit;
+}
+
+function printChain(status: ChainStatus) {
+  const icon = { ok: "✅", lagging: "⚠️ ", unknown: "❓" }[status.health];
+  console.log(`📊 ${status.chain} (${status.chainId}): ${icon} ${status.health.toUpperCase()}`);
+  console.log(`   🏗️  Chain Head:           ${status.chainHead ?? `unavailable (${status.error})`}`);
+  console.log(`   📦 Latest Indexed Block: ${status.indexedBlock ?? "none"}`);
+  console.log(`   ⏰ Block Time:           ${status.indexedBlockTime ?? "-"}`);
+  console.log(`   🔄 Blocks Behind:        ${status.lagBlocks ?? "-"}`);
+  console.log(`   ⏱️  Time Delay:           ${status.lagSeconds === null ? "-" : `${status.lagSeconds}s`}`);
+  console.log(`   ⚡ TPS:                  ${status.tps.toFixed(2)} (last ${status.tpsWindowBlocks} blocks)`);
+}
+
+async function main(): Promise<number> {
+  const maxLagBlocks = parseLimit("max-lag-blocks", args["max-lag-blocks"]);
+  const maxLagSeconds = parseLimit("max-lag-seconds", args["max-lag-seconds"]);
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL is not set; point it at the Postgres database Ponder writes to");
+  }
+
+  const client = new pg.Client({
+    connectionString: process.env.DATABASE_URL,
+    options: `-c search_path=${process.env.DATABASE_SCHEMA || "public"}`,
+  });
+  await client.connect();
+  try {
+    const status = await getIndexerStatus(async (text) => (await client.query<Record<string, unknown>>(text)).rows, {
+      chains,
+      maxLagBlocks,
+      maxLagSeconds,
+    });
+
+    if (args.json) {
+      console.log(JSON.stringify(status, null, 2));
+    } else {
+      status.chains.forEach(printChain);
+    }
+    return status.healthy ? 0 : 1;
+  } finally {
+    await client.end();
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error("❌ Error checking status:", error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+);
@@ -1,6 +1,7 @@
 import { createConfig } from "ponder";
 import { ExampleContractAbi } from "./abis/ExampleContractAbi";
 import { createPublicClient, http } from 'viem';
+import { chains } from "./chains";
 
 // Function to get the latest block number
 async function getLatestBlockNumber(rpcUrl: string): Promise<number> {
@@ -12,27 +13,22 @@ async function getLatestBlockNumber(rpcUrl: string): Promise<number> {
   return Number(blockNumber);
 }
 
-// Get the RPC URL from environment or use default
-const rpcUrl = process.env.PONDER_RPC_URL_1 || "https://testnet-rpc.monad.xyz";
-
-// Get start block from environment or fetch latest
-const startBlock = process.env.PONDER_START_BLOCK 
-  ? parseInt(process.env.PONDER_START_BLOCK) 
-  : await getLatestBlockNumber(rpcUrl);
+// Start each chain at its configured block, or at the current head
+const startBlocks = await Promise.all(
+  chains.map((chain) => chain.startBlock ?? getLatestBlockNumber(chain.rpc))
+);
 
 export default createConfig({
-  chains: {
-    monad_testnet: {
-      id: 10143,
-      rpc: rpcUrl,
-    },
-  },
+  chains: Object.fromEntries(
+    chains.map((chain) => [chain.name, { id: chain.id, rpc: chain.rpc }])
+  ),
   contracts: {
   },
   blocks: {
     monadBlocks: {
-      chain: "monad_testnet",
-      startBlock: startBlock,
+      chain: Object.fromEntries(
+        chains.map((chain, i) => [chain.name, { startBlock: startBlocks[i] }])
+      ),
       interval: 1,
     },
   },
@@ -1,7 +1,8 @@
-import { onchainTable } from "ponder";
+import { onchainTable, primaryKey } from "ponder";
 
 export const blocks = onchainTable("blocks", (t) => ({
-  number: t.bigint().primaryKey(),
+  chainId: t.integer().notNull(),
+  number: t.bigint().notNull(),
   hash: t.hex(),
   timestamp: t.bigint(),
   transactionCount: t.integer(),
@@ -14,11 +15,15 @@ export const blocks = onchainTable("blocks", (t) => ({
   burnCount: t.integer().default(0),
   stakeCount: t.integer().default(0),
   otherCount: t.integer().default(0),
+  typeCounts: t.json().$type<Record<string, number>>(), // Counts for every classifier category
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.number] }),
 }));
 
 // Individual transactions table - stores every transaction with full details
 export const transactions = onchainTable("transactions", (t) => ({
-  hash: t.hex().primaryKey(),
+  chainId: t.integer().notNull(),
+  hash: t.hex().notNull(),
   blockNumber: t.bigint(),
   blockTimestamp: t.bigint(),
   transactionIndex: t.integer(),
@@ -28,17 +33,20 @@ export const transactions = onchainTable("transactions", (t) => ({
   gasUsed: t.bigint(),
   gasPrice: t.bigint(),
   gasLimit: t.bigint(),
-  transactionType: t.text(), // transfer, swap, mint, burn, stake, other
+  transactionType: t.text(), // Classifier category, see src/classifier-rules.ts
   methodSignature: t.text(), // First 10 chars of input data (0x + 8 hex chars)
   inputData: t.text(), // Full input data (optional, can be large)
   success: t.boolean(), // Transaction success status
   nonce: t.bigint(),
   contractAddress: t.hex(), // For contract interactions
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.hash] }),
 }));
 
 // Contract usage tracking (aggregated per block)
 export const contractUsage = onchainTable("contract_usage", (t) => ({
-  id: t.text().primaryKey(), // Format: `${blockNumber}-${contractAddress}`
+  id: t.text().primaryKey(), // Format: `${chainId}-${blockNumber}-${contractAddress}`
+  chainId: t.integer().notNull(),
   blockNumber: t.bigint(),
   blockTimestamp: t.bigint(),
   contractAddress: t.hex(),
@@ -50,7 +58,8 @@ export const contractUsage = onchainTable("contract_usage", (t) => ({
 
 // Wallet-contract interactions (for unique wallet counting)
 export const walletContractInteractions = onchainTable("wallet_contract_interactions", (t) => ({
-  id: t.text().primaryKey(), // Format: `${blockNumber}-${walletAddress}-${contractAddress}`
+  id: t.text().primaryKey(), // Format: `${chainId}-${blockNumber}-${walletAddress}-${contractAddress}`
+  chainId: t.integer().notNull(),
   blockNumber: t.bigint(),
   blockTimestamp: t.bigint(),
   walletAddress: t.hex(),
@@ -63,7 +72,8 @@ export const walletContractInteractions = onchainTable("wallet_contract_interact
 
 // Wallet gas usage tracking (aggregated per block per wallet)
 export const walletGasUsage = onchainTable("wallet_gas_usage", (t) => ({
-  id: t.text().primaryKey(), // Format: `${blockNumber}-${walletAddress}`
+  id: t.text().primaryKey(), // Format: `${chainId}-${blockNumber}-${walletAddress}`
+  chainId: t.integer().notNull(),
   blockNumber: t.bigint(),
   blockTimestamp: t.bigint(),
   walletAddress: t.hex(),
@@ -75,7 +85,8 @@ export const walletGasUsage = onchainTable("wallet_gas_usage", (t) => ({
 
 // Native MON token transfers tracking
 export const monTransfers = onchainTable("mon_transfers", (t) => ({
-  id: t.text().primaryKey(), // Format: `${blockNumber}-${txIndex}`
+  id: t.text().primaryKey(), // Format: `${chainId}-${blockNumber}-${txIndex}`
+  chainId: t.integer().notNull(),
   blockNumber: t.bigint(),
   blockTimestamp: t.bigint(),
   transactionHash: t.hex(),
@@ -87,7 +98,8 @@ export const monTransfers = onchainTable("mon_transfers", (t) => ({
 
 // MON wallet balances (aggregated per block)
 export const monWalletActivity = onchainTable("mon_wallet_activity", (t) => ({
-  id: t.text().primaryKey(), // Format: `${blockNumber}-${walletAddress}`
+  id: t.text().primaryKey(), // Format: `${chainId}-${blockNumber}-${walletAddress}`
+  chainId: t.integer().notNull(),
   blockNumber: t.bigint(),
   blockTimestamp: t.bigint(),
   walletAddress: t.hex(),
@@ -97,3 +109,126 @@ export const monWalletActivity = onchainTable("mon_wallet_activity", (t) => ({
   sentCount: t.integer(), // Number of times this wallet sent MON
   receivedCount: t.integer(), // Number of times this wallet received MON
 }));
+
+// ERC-20 token metadata (fetched lazily the first time a token is seen)
+export const tokens = onchainTable("tokens", (t) => ({
+  chainId: t.integer().notNull(),
+  address: t.hex().notNull(),
+  name: t.text(),
+  symbol: t.text(),
+  decimals: t.integer(),
+  firstSeenBlock: t.bigint(),
+  firstSeenTimestamp: t.bigint(),
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.address] }),
+}));
+
+// ERC-20 Transfer events decoded from transaction logs
+export const tokenTransfers = onchainTable("token_transfers", (t) => ({
+  id: t.text().primaryKey(), // Format: `${chainId}-${blockNumber}-${logIndex}`
+  chainId: t.integer().notNull(),
+  blockNumber: t.bigint(),
+  blockTimestamp: t.bigint(),
+  transactionHash: t.hex(),
+  logIndex: t.integer(),
+  tokenAddress: t.hex(),
+  fromAddress: t.hex(),
+  toAddress: t.hex(),
+  amount: t.bigint(), // Raw token amount (not adjusted for decimals)
+}));
+
+// ERC-20 wallet activity per token (aggregated per block)
+export const tokenWalletActivity = onchainTable("token_wallet_activity", (t) => ({
+  id: t.text().primaryKey(), // Format: `${chainId}-${blockNumber}-${tokenAddress}-${walletAddress}`
+  chainId: t.integer().notNull(),
+  blockNumber: t.bigint(),
+  blockTimestamp: t.bigint(),
+  tokenAddress: t.hex(),
+  walletAddress: t.hex(),
+  totalSent: t.bigint(), // Total tokens sent by this wallet in this block
+  totalReceived: t.bigint(), // Total tokens received by this wallet in this block
+  transferCount: t.integer(), // Number of transfers involving this wallet
+  sentCount: t.integer(),
+  receivedCount: t.integer(),
+}));
+
+// Rollups: hourly and daily totals kept up to date by the block handler
+// (src/rollups.ts), so long windows read one row per bucket instead of one per
+// block. `bucket` is the unix timestamp the hour or day starts at.
+
+// Contract usage per hour
+export const contractUsageHourly = onchainTable("contract_usage_hourly", (t) => ({
+  id: t.text().primaryKey(), // Format: `${chainId}-${bucket}-${contractAddress}`
+  chainId: t.integer().notNull(),
+  bucket: t.bigint().notNull(),
+  contractAddress: t.hex(),
+  transactionCount: t.integer(),
+  gasUsed: t.bigint(),
+  typeCounts: t.json().$type<Record<string, number>>(),
+  transactionType: t.text(), // Most frequent type in the bucket
+}));
+
+// Contract usage per day
+export const contractUsageDaily = onchainTable("contract_usage_daily", (t) => ({
+  id: t.text().primaryKey(), // Format: `${chainId}-${bucket}-${contractAddress}`
+  chainId: t.integer().notNull(),
+  bucket: t.bigint().notNull(),
+  contractAddress: t.hex(),
+  transactionCount: t.integer(),
+  gasUsed: t.bigint(),
+  typeCounts: t.json().$type<Record<string, number>>(),
+  transactionType: t.text(), // Most frequent type in the bucket
+}));
+
+// Gas spending and MON activity per wallet per day
+export const walletActivityDaily = onchainTable("wallet_activity_daily", (t) => ({
+  id: t.text().primaryKey(), // Format: `${chainId}-${bucket}-${walletAddress}`
+  chainId: t.integer().notNull(),
+  bucket: t.bigint().notNull(),
+  walletAddress: t.hex(),
+  totalGasUsed: t.bigint(),
+  transactionCount: t.integer(), // Transactions sent; 0 for wallets that only received MON
+  contractsInteracted: t.integer(), // Sum of the per-block counts, like wallet_gas_usage
+  totalSent: t.bigint(),
+  totalReceived: t.bigint(),
+  transferCount: t.integer(),
+  sentCount: t.integer(),
+  receivedCount: t.integer(),
+}));
+
+// Block totals per hour
+export const networkStatsHourly = onchainTable("network_stats_hourly", (t) => ({
+  chainId: t.integer().notNull(),
+  bucket: t.bigint().notNull(),
+  blockCount: t.integer(),
+  transactionCount: t.integer(),
+  gasUsed: t.bigint(),
+  gasLimit: t.bigint(),
+  transferCount: t.integer(),
+  swapCount: t.integer(),
+  mintCount: t.integer(),
+  burnCount: t.integer(),
+  stakeCount: t.integer(),
+  otherCount: t.integer(),
+  typeCounts: t.json().$type<Record<string, number>>(),
+  monTransferCount: t.integer(),
+  monVolume: t.bigint(), // wei
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.bucket] }),
+}));
+
+// Alerts raised by the rules in src/alert-rules.ts. Written by the block
+// handler, so they are reverted with the block on a reorg.
+export const alerts = onchainTable("alerts", (t) => ({
+  id: t.text().primaryKey(), // Format: `${chainId}-${ruleId}-${occurrence}`, see src/alerts.ts
+  chainId: t.integer().notNull(),
+  ruleId: t.text(),
+  kind: t.text(), // largeMonTransfer, contractSurge, gasUtilization, walletFanOut
+  severity: t.text(), // info, warning, critical
+  blockNumber: t.bigint(),
+  blockTimestamp: t.bigint(),
+  address: t.hex(), // Wallet or contract the alert is about; null for chain-wide alerts
+  transactionHash: t.hex(),
+  message: t.text(),
+  details: t.json().$type<Record<string, string | number>>(), // Rule thresholds and observed values
+}));
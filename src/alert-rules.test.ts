@@ -0,0 +1,74 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { defaultAlertRules } from "./alert-rules";
+import { loadRules } from "./alerts";
+
+const dir = mkdtempSync(join(tmpdir(), "alert-rules-"));
+let files = 0;
+
+// Write a rules file and return its path
+function rulesFile(contents: unknown): string {
+  const path = join(dir, `rules-${files++}.json`);
+  writeFileSync(path, JSON.stringify(contents));
+  return path;
+}
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("alert rules", () => {
+  it("has unique ids for the built-in rules", () => {
+    const ids = defaultAlertRules.map((rule) => rule.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("uses the built-in rules without a rules file", () => {
+    expect(loadRules(undefined)).toEqual(defaultAlertRules);
+  });
+
+  it("accepts the built-in rules as a rules file", () => {
+    expect(loadRules(rulesFile(defaultAlertRules))).toEqual(defaultAlertRules);
+  });
+
+  it("merges entries over the built-in rule with the same id", () => {
+    const rules = loadRules(rulesFile([{ id: "whale-transfer", minAmount: "5000" }]));
+    expect(rules.find((rule) => rule.id === "whale-transfer")).toEqual({
+      ...defaultAlertRules.find((rule) => rule.id === "whale-transfer"),
+      minAmount: "5000",
+    });
+  });
+
+  it("adds new rules and drops disabled ones", () => {
+    const rules = loadRules(
+      rulesFile([
+        { id: "contract-surge", enabled: false },
+        { id: "huge-fan-out", kind: "walletFanOut", severity: "critical", minRecipients: 500 },
+      ])
+    );
+    const ids = rules.map((rule) => rule.id);
+    expect(ids).not.toContain("contract-surge");
+    expect(ids).toContain("huge-fan-out");
+    expect(ids).toHaveLength(defaultAlertRules.length);
+  });
+
+  it.each([
+    ["an unknown kind", { id: "x", kind: "gasPrice", severity: "info" }],
+    ["an unknown severity", { id: "whale-transfer", severity: "fatal" }],
+    ["a malformed amount", { id: "whale-transfer", minAmount: "1e6" }],
+    ["a zero ratio", { id: "contract-surge", ratio: 0 }],
+    ["a fractional transaction count", { id: "contract-surge", minTransactions: 1.5 }],
+    ["a utilization above 1", { id: "gas-saturation", minUtilization: 1.5 }],
+    ["a missing threshold", { id: "fan-out", kind: "walletFanOut", severity: "info" }],
+    ["a non-boolean enabled", { id: "whale-transfer", enabled: "no" }],
+    ["a missing id", { kind: "walletFanOut", severity: "info", minRecipients: 5 }],
+  ])("rejects %s", (_, entry) => {
+    expect(() => loadRules(rulesFile([entry]))).toThrow(/invalid rule/);
+  });
+
+  it("requires the file to hold an array", () => {
+    expect(() => loadRules(rulesFile({ id: "whale-transfer" }))).toThrow(/JSON array/);
+  });
+});
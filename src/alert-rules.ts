@@ -0,0 +1,66 @@
+// Alert rule registry.
+//
+// Each rule has a kind, which decides what it watches, and the thresholds for
+// that kind. Rules are evaluated by the block handler once a block's events
+// have been emitted and its rollups updated (see alerts.ts). Rules are keyed by
+// `id`: the JSON file named by ALERT_RULES_FILE can add rules, replace a
+// built-in one by reusing its id, or turn one off with "enabled": false.
+
+export const ALERT_KINDS = ["largeMonTransfer", "contractSurge", "gasUtilization", "walletFanOut"] as const;
+
+export type AlertKind = (typeof ALERT_KINDS)[number];
+
+export const ALERT_SEVERITIES = ["info", "warning", "critical"] as const;
+
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+
+interface AlertRuleBase {
+  id: string;
+  severity: AlertSeverity;
+  description?: string;
+  enabled?: boolean; // Default true
+}
+
+export type AlertRule =
+  // A single MON transfer of at least minAmount MON (decimal string, e.g. "1000.5")
+  | (AlertRuleBase & { kind: "largeMonTransfer"; minAmount: string })
+  // A contract's transactions this hour reach `ratio` times the previous hour's
+  // (an idle previous hour counts as 1), once it has at least minTransactions
+  | (AlertRuleBase & { kind: "contractSurge"; ratio: number; minTransactions: number })
+  // `blocks` consecutive blocks with gasUsed / gasLimit of at least minUtilization (0-1)
+  | (AlertRuleBase & { kind: "gasUtilization"; minUtilization: number; blocks: number })
+  // One wallet sends transactions to at least minRecipients distinct addresses in a block
+  | (AlertRuleBase & { kind: "walletFanOut"; minRecipients: number });
+
+export const defaultAlertRules: AlertRule[] = [
+  {
+    id: "whale-transfer",
+    kind: "largeMonTransfer",
+    severity: "warning",
+    minAmount: "100000",
+    description: "Single MON transfer of 100,000 MON or more",
+  },
+  {
+    id: "contract-surge",
+    kind: "contractSurge",
+    severity: "info",
+    ratio: 10,
+    minTransactions: 100,
+    description: "Contract transactions up 10x on the previous hour",
+  },
+  {
+    id: "gas-saturation",
+    kind: "gasUtilization",
+    severity: "warning",
+    minUtilization: 0.95,
+    blocks: 5,
+    description: "Block gas utilization at 95% or more for 5 blocks in a row",
+  },
+  {
+    id: "wallet-fan-out",
+    kind: "walletFanOut",
+    severity: "info",
+    minRecipients: 50,
+    description: "Wallet sending to 50 or more distinct addresses in one block",
+  },
+];
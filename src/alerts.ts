@@ -0,0 +1,288 @@
+import { readFileSync } from "fs";
+import type { Context } from "ponder:registry";
+import { alerts, blocks, contractUsageHourly } from "ponder:schema";
+import { formatEther, parseEther } from "viem";
+import {
+  ALERT_KINDS,
+  ALERT_SEVERITIES,
+  defaultAlertRules,
+  type AlertRule,
+} from "./alert-rules";
+import { logger } from "./logger";
+import { alertsRaised, chainLabel } from "./metrics";
+import { HOUR_SECONDS, bucketOf } from "./rollups";
+import { eventEmitter, type AlertEvent, type BlockEvent, type Event, type MonTransferEvent } from "./websocket";
+
+type BlockContext = Context<"monadBlocks:block">;
+
+// Optional JSON file with extra or replacement rules (same shape as AlertRule)
+const RULES_FILE = process.env.ALERT_RULES_FILE;
+
+const AMOUNT_PATTERN = /^\d+(\.\d{1,18})?$/;
+
+const log = logger.child({ module: "alerts" });
+
+const isPositiveInteger = (value: unknown) => typeof value === "number" && Number.isSafeInteger(value) && value > 0;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  values.some((candidate) => candidate === value);
+
+function isValidRule(rule: unknown): rule is AlertRule {
+  if (!isObject(rule) || typeof rule.id !== "string" || rule.id.length === 0) return false;
+  if (!isOneOf(ALERT_KINDS, rule.kind) || !isOneOf(ALERT_SEVERITIES, rule.severity)) return false;
+  if (rule.enabled !== undefined && typeof rule.enabled !== "boolean") return false;
+  if (rule.description !== undefined && typeof rule.description !== "string") return false;
+  switch (rule.kind) {
+    case "largeMonTransfer":
+      return typeof rule.minAmount === "string" && AMOUNT_PATTERN.test(rule.minAmount);
+    case "contractSurge":
+      return typeof rule.ratio === "number" && rule.ratio > 0 && isPositiveInteger(rule.minTransactions);
+    case "gasUtilization":
+      return (
+        typeof rule.minUtilization === "number" &&
+        rule.minUtilization > 0 &&
+        rule.minUtilization <= 1 &&
+        isPositiveInteger(rule.blocks)
+      );
+    case "walletFanOut":
+      return isPositiveInteger(rule.minRecipients);
+  }
+}
+
+// File entries with a built-in id are merged over it, so
+// { "id": "whale-transfer", "minAmount": "5000" } only changes the threshold
+export function loadRules(path: string | undefined): AlertRule[] {
+  const rules = new Map(defaultAlertRules.map((rule) => [rule.id, rule]));
+  if (path) {
+    const parsed: unknown = JSON.parse(readFileSync(path, "utf8"));
+    if (!Array.isArray(parsed)) {
+      throw new Error(`Alert rules file ${path} must contain a JSON array`);
+    }
+    const entries: readonly unknown[] = parsed;
+    for (const entry of entries) {
+      const merged = isObject(entry) && typeof entry.id === "string" ? { ...rules.get(entry.id), ...entry } : entry;
+      if (!isValidRule(merged)) {
+        throw new Error(`Alert rules file ${path} has an invalid rule: ${JSON.stringify(entry)}`);
+      }
+      rules.set(merged.id, merged);
+    }
+  }
+  return Array.from(rules.values()).filter((rule) => rule.enabled !== false);
+}
+
+const activeRules = loadRules(RULES_FILE);
+
+// Active rules, for the API
+export function getAlertRules(): readonly AlertRule[] {
+  return activeRules;
+}
+
+// ==============================================
+// EVENT COLLECTION
+// ==============================================
+
+// What the rules need from the block being indexed, collected from the event
+// stream as the block handler emits it. A block event starts a new block, so a
+// handler that failed and is retried does not count its events twice.
+interface BlockActivity {
+  block: BlockEvent;
+  monTransfers: MonTransferEvent[];
+  recipients: Map<string, Set<string>>; // Sender -> distinct transaction recipients
+  contracts: Set<`0x${string}`>;
+}
+
+const activity = new Map<number, BlockActivity>();
+
+function activityOf(event: Event): BlockActivity | undefined {
+  return event.chainId === undefined ? undefined : activity.get(event.chainId);
+}
+
+eventEmitter.on("block", (event) => {
+  if (event.chainId === undefined) return;
+  activity.set(event.chainId, {
+    block: event.data as BlockEvent,
+    monTransfers: [],
+    recipients: new Map(),
+    contracts: new Set(),
+  });
+});
+
+eventEmitter.on("transaction", (event) => {
+  const { fromAddress, toAddress } = event.data as { fromAddress: string; toAddress: string };
+  const current = activityOf(event);
+  if (!current || !toAddress) return;
+  let recipients = current.recipients.get(fromAddress);
+  if (!recipients) {
+    recipients = new Set();
+    current.recipients.set(fromAddress, recipients);
+  }
+  recipients.add(toAddress.toLowerCase());
+});
+
+eventEmitter.on("monTransfer", (event) => {
+  activityOf(event)?.monTransfers.push(event.data as MonTransferEvent);
+});
+
+eventEmitter.on("contractUsage", (event) => {
+  const { contractAddress } = event.data as { contractAddress: `0x${string}` };
+  activityOf(event)?.contracts.add(contractAddress);
+});
+
+// ==============================================
+// RULES
+// ==============================================
+
+// An alert before it is stored; the id makes each occurrence unique, so an
+// alert that is still true on the next block is not raised again
+type AlertCandidate = Omit<AlertEvent, "ruleId" | "kind" | "severity" | "blockNumber" | "blockTimestamp">;
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}…${address.slice(-4)}`;
+
+function isSaturated(gasUsed: bigint | null, gasLimit: bigint | null, minUtilization: number): boolean {
+  if (!gasUsed || !gasLimit) return false;
+  // Basis points keep the comparison in integers
+  return gasUsed * 10_000n >= BigInt(Math.round(minUtilization * 10_000)) * gasLimit;
+}
+
+async function evaluateRule(
+  context: BlockContext,
+  chainId: number,
+  rule: AlertRule,
+  current: BlockActivity
+): Promise<AlertCandidate[]> {
+  const { block } = current;
+  const found: AlertCandidate[] = [];
+
+  switch (rule.kind) {
+    case "largeMonTransfer": {
+      const minAmount = parseEther(rule.minAmount);
+      for (const transfer of current.monTransfers) {
+        if (transfer.amount < minAmount) continue;
+        const to = transfer.toAddress ? shortAddress(transfer.toAddress) : "a new contract";
+        found.push({
+          id: `${chainId}-${rule.id}-${transfer.transactionHash}`,
+          address: transfer.fromAddress,
+          transactionHash: transfer.transactionHash,
+          message: `${formatEther(transfer.amount)} MON sent from ${shortAddress(transfer.fromAddress)} to ${to}`,
+          details: { amount: transfer.amount.toString(), minAmount: minAmount.toString(), to: transfer.toAddress },
+        });
+      }
+      break;
+    }
+
+    case "contractSurge": {
+      // Counts come from the hourly rollup, which already includes this block
+      const hour = bucketOf(block.timestamp, HOUR_SECONDS);
+      for (const address of current.contracts) {
+        const id = `${chainId}-${rule.id}-${address}-${hour}`;
+        const thisHour = await context.db.find(contractUsageHourly, { id: `${chainId}-${hour}-${address}` });
+        const count = thisHour?.transactionCount ?? 0;
+        if (count < rule.minTransactions || (await context.db.find(alerts, { id }))) continue;
+
+        const lastHour = await context.db.find(contractUsageHourly, {
+          id: `${chainId}-${hour - BigInt(HOUR_SECONDS)}-${address}`,
+        });
+        const previous = lastHour?.transactionCount ?? 0;
+        if (count < rule.ratio * Math.max(previous, 1)) continue;
+
+        found.push({
+          id,
+          address,
+          transactionHash: null,
+          message: `${shortAddress(address)} has ${count} transactions this hour, ${previous} in the previous hour`,
+          details: { transactions: count, previousHour: previous, ratio: rule.ratio, hour: hour.toString() },
+        });
+      }
+      break;
+    }
+
+    case "gasUtilization": {
+      if (!isSaturated(block.gasUsed, block.gasLimit, rule.minUtilization)) break;
+
+      // Raised once per run of saturated blocks, on the block that makes it
+      // `blocks` long; earlier blocks are read back from the blocks table
+      const runLength = BigInt(rule.blocks);
+      let inRun = true;
+      for (let offset = 1n; offset < runLength && inRun; offset++) {
+        const earlier = await context.db.find(blocks, { chainId, number: block.number - offset });
+        inRun = !!earlier && isSaturated(earlier.gasUsed, earlier.gasLimit, rule.minUtilization);
+      }
+      if (!inRun) break;
+      const before = await context.db.find(blocks, { chainId, number: block.number - runLength });
+      if (before && isSaturated(before.gasUsed, before.gasLimit, rule.minUtilization)) break;
+
+      const firstBlock = block.number - runLength + 1n;
+      found.push({
+        id: `${chainId}-${rule.id}-${firstBlock}`,
+        address: null,
+        transactionHash: null,
+        message: `Gas utilization at ${rule.minUtilization * 100}% or more for ${rule.blocks} blocks since ${firstBlock}`,
+        details: {
+          firstBlock: firstBlock.toString(),
+          blocks: rule.blocks,
+          minUtilization: rule.minUtilization,
+          utilization: Number(block.gasUsed) / Number(block.gasLimit),
+        },
+      });
+      break;
+    }
+
+    case "walletFanOut": {
+      for (const [wallet, recipients] of current.recipients) {
+        if (recipients.size < rule.minRecipients) continue;
+        found.push({
+          id: `${chainId}-${rule.id}-${wallet}-${block.number}`,
+          address: wallet,
+          transactionHash: null,
+          message: `${shortAddress(wallet)} sent to ${recipients.size} distinct addresses in one block`,
+          details: { recipients: recipients.size, minRecipients: rule.minRecipients },
+        });
+      }
+      break;
+    }
+  }
+
+  return found;
+}
+
+// Run the active rules against a block the handler has finished writing,
+// store new alerts and push them to WebSocket subscribers
+export async function evaluateAlerts(context: BlockContext, chainId: number, blockNumber: bigint) {
+  const current = activity.get(chainId);
+  activity.delete(chainId);
+  if (!current || current.block.number !== blockNumber) return;
+
+  for (const rule of activeRules) {
+    for (const candidate of await evaluateRule(context, chainId, rule, current)) {
+      if (await context.db.find(alerts, { id: candidate.id })) continue;
+
+      const alert: AlertEvent = {
+        ...candidate,
+        ruleId: rule.id,
+        kind: rule.kind,
+        severity: rule.severity,
+        blockNumber,
+        blockTimestamp: current.block.timestamp,
+      };
+      await context.db.insert(alerts).values({
+        ...alert,
+        chainId,
+        address: alert.address as `0x${string}` | null,
+        transactionHash: alert.transactionHash as `0x${string}` | null,
+      });
+
+      alertsRaised.inc({ chain: chainLabel(chainId), rule: rule.id, severity: rule.severity });
+      log.info("Alert raised", {
+        chainId,
+        block: blockNumber,
+        rule: rule.id,
+        severity: rule.severity,
+        message: alert.message,
+      });
+      eventEmitter.emit({ type: "alert", chainId, blockNumber, data: alert, timestamp: Date.now() });
+    }
+  }
+}
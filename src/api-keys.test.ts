@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// Keys are read when the module loads, so each test imports a fresh copy
+async function loadWith(keys: unknown) {
+  vi.stubEnv("API_KEYS_FILE", "");
+  vi.stubEnv("API_KEYS", JSON.stringify(keys));
+  vi.resetModules();
+  return await import("./api-keys");
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("API key config", () => {
+  it("loads keys with their quotas and the defaults", async () => {
+    const { listApiKeys } = await loadWith([
+      { name: "partner-a", key: "secret-a", requestsPerMinute: 0, maxConnections: 2 },
+      { name: "ops", keySha256: "A".repeat(64), admin: true },
+    ]);
+    expect(listApiKeys()).toEqual([
+      expect.objectContaining({ name: "partner-a", requestsPerMinute: 0, maxConnections: 2 }),
+      expect.objectContaining({ name: "ops", requestsPerMinute: 600, maxConnections: 5 }),
+    ]);
+  });
+
+  it("leaves the endpoints open without keys", async () => {
+    const { isApiKeyAuthEnabled, authorizeRequest } = await loadWith([]);
+    expect(isApiKeyAuthEnabled()).toBe(false);
+    expect(authorizeRequest(undefined)).toEqual({ ok: true });
+  });
+
+  it("enforces the per-minute quota", async () => {
+    const { authorizeRequest } = await loadWith([{ name: "a", key: "secret", requestsPerMinute: 2 }]);
+    expect(authorizeRequest("secret")).toMatchObject({ ok: true, remaining: 1 });
+    expect(authorizeRequest("secret")).toMatchObject({ ok: true, remaining: 0 });
+    expect(authorizeRequest("secret")).toMatchObject({ ok: false, status: 429 });
+    expect(authorizeRequest("wrong")).toMatchObject({ ok: false, status: 401 });
+  });
+
+  it.each([
+    ["a non-array", { name: "a", key: "secret" }, /must be a JSON array/],
+    ["a non-object entry", ["secret"], /JSON array of key objects/],
+    ["a missing name", [{ key: "secret" }], /needs a name/],
+    ["a missing key", [{ name: "a" }], /needs a key or keySha256/],
+    ["a malformed keySha256", [{ name: "a", keySha256: "abc" }], /64 hex characters/],
+    ["a string quota", [{ name: "a", key: "secret", requestsPerMinute: "600" }], /requestsPerMinute must be a whole number/],
+    ["a negative quota", [{ name: "a", key: "secret", maxConnections: -1 }], /maxConnections must be a whole number/],
+    ["a fractional quota", [{ name: "a", key: "secret", requestsPerMinute: 1.5 }], /requestsPerMinute/],
+    ["a non-boolean admin", [{ name: "a", key: "secret", admin: "yes" }], /admin must be true or false/],
+    ["a duplicate key", [{ name: "a", key: "secret" }, { name: "b", key: "secret" }], /Duplicate API key for "b"/],
+  ])("fails to load with %s", async (_, keys, message) => {
+    await expect(loadWith(keys)).rejects.toThrow(message);
+  });
+
+  it("keeps secrets out of error messages", async () => {
+    await expect(loadWith([{ name: "a", key: "top-secret", maxConnections: "5" }])).rejects.toThrow(
+      expect.objectContaining({ message: expect.not.stringContaining("top-secret") })
+    );
+  });
+});
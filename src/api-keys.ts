@@ -0,0 +1,279 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+
+// API keys for the REST, GraphQL, SQL and WebSocket endpoints.
+//
+// Keys are configured as a JSON array, inline in API_KEYS or in the file named
+// by API_KEYS_FILE:
+//
+//   [{ "name": "partner-a", "key": "...", "requestsPerMinute": 600, "maxConnections": 5 }]
+//
+// `keySha256` (hex) can replace `key` so the config holds no secrets, and
+// `admin: true` lets a key read every key's usage. Without any configured keys
+// the endpoints stay open.
+
+export interface ApiKeyConfig {
+  name: string;
+  key?: string;
+  keySha256?: string;
+  requestsPerMinute?: number; // 0 = unlimited
+  maxConnections?: number; // Concurrent WebSocket connections; 0 = unlimited
+  admin?: boolean;
+}
+
+export interface ApiKeyUsage {
+  requests: number;
+  rateLimited: number; // Requests answered with 429
+  connections: number; // Open WebSocket connections
+  totalConnections: number;
+  rejectedConnections: number; // Handshakes refused for the connection quota
+  lastUsedAt: string | null;
+}
+
+export interface ApiKey {
+  name: string;
+  requestsPerMinute: number;
+  maxConnections: number;
+  admin: boolean;
+  usage: ApiKeyUsage;
+}
+
+// Quotas for keys that do not set their own
+const DEFAULT_REQUESTS_PER_MINUTE = parseInt(process.env.API_KEY_REQUESTS_PER_MINUTE || "600");
+const DEFAULT_MAX_CONNECTIONS = parseInt(process.env.API_KEY_MAX_CONNECTIONS || "5");
+
+const WINDOW_MS = 60_000;
+
+// Requests counted in the current one-minute window, per key
+const windows = new WeakMap<ApiKey, { start: number; count: number }>();
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+const SHA256_PATTERN = /^[0-9a-fA-F]{64}$/;
+
+// Quotas are whole numbers; 0 = unlimited
+const isQuota = (value: unknown): value is number =>
+  typeof value === "number" && Number.isSafeInteger(value) && value >= 0;
+
+// A JSON key entry. Errors name the key but never include its secret.
+function parseKeyEntry(entry: unknown, source: string): ApiKeyConfig {
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    throw new Error(`${source} must be a JSON array of key objects`);
+  }
+  const fields = entry as Record<string, unknown>;
+  if (typeof fields.name !== "string" || fields.name.length === 0) {
+    throw new Error(`Invalid API key in ${source}: every key needs a name`);
+  }
+  const invalid = (reason: string) => new Error(`Invalid API key "${fields.name}" in ${source}: ${reason}`);
+  const config: ApiKeyConfig = { name: fields.name };
+
+  if (typeof fields.key === "string" && fields.key.length > 0) config.key = fields.key;
+  else if (fields.key !== undefined) throw invalid("key must be a non-empty string");
+
+  if (typeof fields.keySha256 === "string" && SHA256_PATTERN.test(fields.keySha256)) {
+    config.keySha256 = fields.keySha256.toLowerCase();
+  } else if (fields.keySha256 !== undefined) {
+    throw invalid("keySha256 must be 64 hex characters");
+  }
+  if (!config.key && !config.keySha256) throw invalid("needs a key or keySha256");
+
+  for (const quota of ["requestsPerMinute", "maxConnections"] as const) {
+    const value = fields[quota];
+    if (isQuota(value)) config[quota] = value;
+    else if (value !== undefined) throw invalid(`${quota} must be a whole number, 0 for unlimited`);
+  }
+
+  if (typeof fields.admin === "boolean") config.admin = fields.admin;
+  else if (fields.admin !== undefined) throw invalid("admin must be true or false");
+  return config;
+}
+
+function parseKeyList(value: string, source: string): ApiKeyConfig[] {
+  const parsed: unknown = JSON.parse(value);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${source} must be a JSON array of keys`);
+  }
+  const entries: readonly unknown[] = parsed;
+  return entries.map((entry) => parseKeyEntry(entry, source));
+}
+
+function loadKeys(): Map<string, ApiKey> {
+  let configs: ApiKeyConfig[] = [];
+  if (process.env.API_KEYS_FILE) {
+    configs = parseKeyList(readFileSync(process.env.API_KEYS_FILE, "utf8"), "API_KEYS_FILE");
+  } else if (process.env.API_KEYS) {
+    configs = parseKeyList(process.env.API_KEYS, "API_KEYS");
+  }
+
+  // Keyed by the SHA-256 of the key, so lookups never compare secrets directly.
+  // parseKeyEntry() has checked that each config has one or the other.
+  const keys = new Map<string, ApiKey>();
+  for (const config of configs) {
+    const hash = config.keySha256 ?? sha256(config.key ?? "");
+    if (keys.has(hash)) {
+      throw new Error(`Duplicate API key for "${config.name}"`);
+    }
+    keys.set(hash, {
+      name: config.name,
+      requestsPerMinute: config.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE,
+      maxConnections: config.maxConnections ?? DEFAULT_MAX_CONNECTIONS,
+      admin: config.admin === true,
+      usage: {
+        requests: 0,
+        rateLimited: 0,
+        connections: 0,
+        totalConnections: 0,
+        rejectedConnections: 0,
+        lastUsedAt: null,
+      },
+    });
+  }
+  return keys;
+}
+
+// Loaded when the server starts, so a malformed key list stops it there
+// rather than failing the first request
+const apiKeys = loadKeys();
+
+export function isApiKeyAuthEnabled(): boolean {
+  return apiKeys.size > 0;
+}
+
+// The key from `Authorization: Bearer <key>` or `X-API-Key`, and for WebSocket
+// handshakes (browsers cannot set headers there) the `apiKey` query parameter
+export function extractApiKey(
+  header: (name: string) => string | undefined,
+  url?: string
+): string | undefined {
+  const authorization = header("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim();
+  }
+  const apiKey = header("x-api-key");
+  if (apiKey) return apiKey;
+  if (url) {
+    return new URL(url, "http://localhost").searchParams.get("apiKey") ?? undefined;
+  }
+  return undefined;
+}
+
+export type ApiKeyDenial = {
+  ok: false;
+  status: 401 | 429;
+  code: "UNAUTHORIZED" | "RATE_LIMITED";
+  message: string;
+  retryAfterSeconds?: number;
+};
+
+export type RequestAuthorization =
+  | {
+      ok: true;
+      key?: ApiKey; // Undefined when auth is disabled
+      limit?: number;
+      remaining?: number;
+      resetSeconds?: number;
+    }
+  | ApiKeyDenial;
+
+function lookup(presented: string | undefined): ApiKey | ApiKeyDenial {
+  if (!presented) {
+    return { ok: false, status: 401, code: "UNAUTHORIZED", message: "An API key is required" };
+  }
+  const key = apiKeys.get(sha256(presented));
+  if (!key) {
+    return { ok: false, status: 401, code: "UNAUTHORIZED", message: "Invalid API key" };
+  }
+  key.usage.lastUsedAt = new Date().toISOString();
+  return key;
+}
+
+// Check a key and count one request against its per-minute quota
+export function authorizeRequest(presented: string | undefined): RequestAuthorization {
+  if (!isApiKeyAuthEnabled()) return { ok: true };
+  const key = lookup(presented);
+  if ("ok" in key) return key;
+
+  if (key.requestsPerMinute <= 0) {
+    key.usage.requests++;
+    return { ok: true, key };
+  }
+
+  const now = Date.now();
+  let window = windows.get(key);
+  if (!window || now - window.start >= WINDOW_MS) {
+    window = { start: now, count: 0 };
+    windows.set(key, window);
+  }
+  const resetSeconds = Math.ceil((window.start + WINDOW_MS - now) / 1000);
+
+  if (window.count >= key.requestsPerMinute) {
+    key.usage.rateLimited++;
+    return {
+      ok: false,
+      status: 429,
+      code: "RATE_LIMITED",
+      message: `Rate limit of ${key.requestsPerMinute} requests per minute exceeded`,
+      retryAfterSeconds: resetSeconds,
+    };
+  }
+
+  window.count++;
+  key.usage.requests++;
+  return {
+    ok: true,
+    key,
+    limit: key.requestsPerMinute,
+    remaining: key.requestsPerMinute - window.count,
+    resetSeconds,
+  };
+}
+
+export type ConnectionAuthorization =
+  | { ok: true; key?: ApiKey; release: () => void }
+  | ApiKeyDenial;
+
+// Check a key and take one of its WebSocket connection slots. `release` gives
+// the slot back and may be called more than once.
+export function acquireConnection(presented: string | undefined): ConnectionAuthorization {
+  if (!isApiKeyAuthEnabled()) return { ok: true, release: () => {} };
+  const key = lookup(presented);
+  if ("ok" in key) return key;
+
+  if (key.maxConnections > 0 && key.usage.connections >= key.maxConnections) {
+    key.usage.rejectedConnections++;
+    return {
+      ok: false,
+      status: 429,
+      code: "RATE_LIMITED",
+      message: `Connection limit of ${key.maxConnections} reached`,
+    };
+  }
+
+  key.usage.connections++;
+  key.usage.totalConnections++;
+  let released = false;
+  return {
+    ok: true,
+    key,
+    release: () => {
+      if (released) return;
+      released = true;
+      key.usage.connections--;
+    },
+  };
+}
+
+export function describeApiKey(key: ApiKey) {
+  return {
+    name: key.name,
+    requestsPerMinute: key.requestsPerMinute,
+    maxConnections: key.maxConnections,
+    usage: key.usage,
+  };
+}
+
+export function listApiKeys() {
+  return Array.from(apiKeys.values(), describeApiKey);
+}
@@ -1,542 +1,747 @@
-import { Hono } from "hono";
 import { db } from "ponder:api";
+import { Hono } from "hono";
 import * as queries from "../queries-examples";
+import { ALERT_KINDS, ALERT_SEVERITIES } from "../alert-rules";
+import { getAlertRules } from "../alerts";
+import { getClassifierRules, getTransactionCategories } from "../classifier";
+import { buildOpenApiDocument } from "./openapi";
+import * as responses from "./responses";
+import { defineRoute, jsonResponse, registerRoute, type RouteMap } from "./router";
+import {
+  ApiError,
+  addressParam,
+  addressQueryParam,
+  blockNumberParam,
+  chainParam,
+  enumParam,
+  hashParam,
+  integerParam,
+  limitParam,
+  listParams,
+  transactionListParams,
+  uintParam,
+  windowParams,
+  type ParamDoc,
+} from "./validation";
 
 const app = new Hono();
 
-// ==============================================
-// 🏗️ CONTRACT ANALYTICS ENDPOINTS
-// ==============================================
+// Actual range a window covers, for the response `meta` block
+function describeWindow(window: queries.QueryWindow) {
+  return {
+    label: window.label,
+    from: window.from?.toString() ?? null,
+    to: window.to?.toString() ?? null,
+    fromBlock: window.fromBlock?.toString() ?? null,
+    toBlock: window.toBlock?.toString() ?? null,
+  };
+}
+
+const daysParam = integerParam("Number of days to look back", { default: 7, minimum: 1, maximum: 365 });
 
-// Most used contracts by transaction count
-app.get("/contracts/most-used", async (c) => {
-  try {
-    const limit = parseInt(c.req.query("limit") || "10");
-    const result = await queries.getMostUsedContracts24h(db, limit);
-    return c.json({
-      success: true,
-      data: result,
+export const routes = [
+  // ==============================================
+  // 🏗️ CONTRACT ANALYTICS ENDPOINTS
+  // ==============================================
+
+  // Most used contracts by transaction count
+  defineRoute({
+    path: "/contracts/most-used",
+    group: "contracts",
+    summary: "Most used contracts by transaction count",
+    example: "/contracts/most-used?limit=20",
+    cacheTtl: 30,
+    params: { chain: chainParam, window: windowParams, limit: limitParam(10) },
+    response: responses.mostUsedContracts,
+    handler: async ({ chain, window, limit }) => ({
+      data: await queries.getMostUsedContracts(db, window, limit, chain?.id),
       meta: {
-        description: "Most used contracts by transaction count (24h)",
+        description: `Most used contracts by transaction count (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
         limit,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      },
+    }),
+  }),
 
-// Most popular contracts by unique wallets
-app.get("/contracts/most-popular", async (c) => {
-  try {
-    const limit = parseInt(c.req.query("limit") || "10");
-    const result = await queries.getMostPopularContractsByWallets24h(db, limit);
-    return c.json({
-      success: true,
-      data: result,
+  // Most popular contracts by unique wallets
+  defineRoute({
+    path: "/contracts/most-popular",
+    group: "contracts",
+    summary: "Most popular contracts by unique wallets",
+    cacheTtl: 30,
+    params: { chain: chainParam, window: windowParams, limit: limitParam(10) },
+    response: responses.mostPopularContracts,
+    handler: async ({ chain, window, limit }) => ({
+      data: await queries.getMostPopularContractsByWallets(db, window, limit, chain?.id),
       meta: {
-        description: "Most popular contracts by unique wallet count (24h)",
+        description: `Most popular contracts by unique wallet count (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
         limit,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      },
+    }),
+  }),
 
-// Top gas-consuming contracts
-app.get("/contracts/top-gas", async (c) => {
-  try {
-    const limit = parseInt(c.req.query("limit") || "10");
-    const result = await queries.getTopGasContracts24h(db, limit);
-    return c.json({
-      success: true,
-      data: result,
+  // Top gas-consuming contracts
+  defineRoute({
+    path: "/contracts/top-gas",
+    group: "contracts",
+    summary: "Top gas-consuming contracts",
+    cacheTtl: 30,
+    params: { chain: chainParam, window: windowParams, limit: limitParam(10) },
+    response: responses.topGasContracts,
+    handler: async ({ chain, window, limit }) => ({
+      data: await queries.getTopGasContracts(db, window, limit, chain?.id),
       meta: {
-        description: "Top gas-consuming contracts (24h)",
+        description: `Top gas-consuming contracts (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
         limit,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      },
+    }),
+  }),
 
-// Most gas-efficient contracts
-app.get("/contracts/most-efficient", async (c) => {
-  try {
-    const limit = parseInt(c.req.query("limit") || "10");
-    const minTxs = parseInt(c.req.query("minTxs") || "100");
-    const result = await queries.getMostEfficientContracts24h(db, minTxs, limit);
-    return c.json({
-      success: true,
-      data: result,
+  // Most gas-efficient contracts
+  defineRoute({
+    path: "/contracts/most-efficient",
+    group: "contracts",
+    summary: "Most gas-efficient contracts",
+    cacheTtl: 30,
+    params: {
+      chain: chainParam,
+      window: windowParams,
+      limit: limitParam(10),
+      minTxs: integerParam("Minimum transactions for efficiency ranking", {
+        default: 100,
+        minimum: 1,
+        maximum: Number.MAX_SAFE_INTEGER,
+      }),
+    },
+    response: responses.mostEfficientContracts,
+    handler: async ({ chain, window, limit, minTxs }) => ({
+      data: await queries.getMostEfficientContracts(db, window, minTxs, limit, chain?.id),
       meta: {
-        description: "Most gas-efficient contracts (24h)",
+        description: `Most gas-efficient contracts (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
         limit,
         minTxs,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      },
+    }),
+  }),
 
-// ==============================================
-// 👛 WALLET ANALYTICS ENDPOINTS
-// ==============================================
+  // ==============================================
+  // 👛 WALLET ANALYTICS ENDPOINTS
+  // ==============================================
 
-// Top gas-spending wallets
-app.get("/wallets/top-gas", async (c) => {
-  try {
-    const limit = parseInt(c.req.query("limit") || "10");
-    const result = await queries.getTopGasWallets24h(db, limit);
-    return c.json({
-      success: true,
-      data: result,
+  // Top gas-spending wallets
+  defineRoute({
+    path: "/wallets/top-gas",
+    group: "wallets",
+    summary: "Top gas-spending wallets",
+    example: "/wallets/top-gas?limit=15",
+    cacheTtl: 30,
+    params: { chain: chainParam, window: windowParams, limit: limitParam(10) },
+    response: responses.topGasWallets,
+    handler: async ({ chain, window, limit }) => ({
+      data: await queries.getTopGasWallets(db, window, limit, chain?.id),
       meta: {
-        description: "Top gas-spending wallets (24h)",
+        description: `Top gas-spending wallets (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
         limit,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      },
+    }),
+  }),
 
-// Most active wallets by contract interactions
-app.get("/wallets/most-active", async (c) => {
-  try {
-    const limit = parseInt(c.req.query("limit") || "10");
-    const result = await queries.getMostActiveWallets24h(db, limit);
-    return c.json({
-      success: true,
-      data: result,
+  // Most active wallets by contract interactions
+  defineRoute({
+    path: "/wallets/most-active",
+    group: "wallets",
+    summary: "Most active wallets by contract interactions",
+    cacheTtl: 30,
+    params: { chain: chainParam, window: windowParams, limit: limitParam(10) },
+    response: responses.mostActiveWallets,
+    handler: async ({ chain, window, limit }) => ({
+      data: await queries.getMostActiveWallets(db, window, limit, chain?.id),
       meta: {
-        description: "Most active wallets by contract interactions (24h)",
+        description: `Most active wallets by contract interactions (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
         limit,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      },
+    }),
+  }),
 
-// ==============================================
-// 💰 MON TOKEN ANALYTICS ENDPOINTS
-// ==============================================
+  // ==============================================
+  // 💰 MON TOKEN ANALYTICS ENDPOINTS
+  // ==============================================
 
-// Top MON senders
-app.get("/mon/top-senders", async (c) => {
-  try {
-    const limit = parseInt(c.req.query("limit") || "10");
-    const result = await queries.getTopMonSenders24h(db, limit);
-    return c.json({
-      success: true,
-      data: result,
+  // Top MON senders
+  defineRoute({
+    path: "/mon/top-senders",
+    group: "mon",
+    summary: "Top MON senders by volume",
+    cacheTtl: 30,
+    params: { chain: chainParam, window: windowParams, limit: limitParam(10) },
+    response: responses.topMonSenders,
+    handler: async ({ chain, window, limit }) => ({
+      data: await queries.getTopMonSenders(db, window, limit, chain?.id),
       meta: {
-        description: "Top MON senders by volume (24h)",
+        description: `Top MON senders by volume (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
         limit,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      },
+    }),
+  }),
 
-// Top MON receivers
-app.get("/mon/top-receivers", async (c) => {
-  try {
-    const limit = parseInt(c.req.query("limit") || "10");
-    const result = await queries.getTopMonReceivers24h(db, limit);
-    return c.json({
-      success: true,
-      data: result,
+  // Top MON receivers
+  defineRoute({
+    path: "/mon/top-receivers",
+    group: "mon",
+    summary: "Top MON receivers by volume",
+    cacheTtl: 30,
+    params: { chain: chainParam, window: windowParams, limit: limitParam(10) },
+    response: responses.topMonReceivers,
+    handler: async ({ chain, window, limit }) => ({
+      data: await queries.getTopMonReceivers(db, window, limit, chain?.id),
       meta: {
-        description: "Top MON receivers by volume (24h)",
+        description: `Top MON receivers by volume (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
         limit,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      },
+    }),
+  }),
 
-// Largest MON transfers
-app.get("/mon/largest-transfers", async (c) => {
-  try {
-    const limit = parseInt(c.req.query("limit") || "20");
-    const result = await queries.getLargestMonTransfers24h(db, limit);
-    return c.json({
-      success: true,
-      data: result,
+  // Largest MON transfers
+  defineRoute({
+    path: "/mon/largest-transfers",
+    group: "mon",
+    summary: "Largest single MON transfers",
+    cacheTtl: 30,
+    params: { chain: chainParam, window: windowParams, limit: limitParam(20) },
+    response: responses.largestMonTransfers,
+    handler: async ({ chain, window, limit }) => ({
+      data: await queries.getLargestMonTransfers(db, window, limit, chain?.id),
       meta: {
-        description: "Largest single MON transfers (24h)",
+        description: `Largest single MON transfers (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
         limit,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      },
+    }),
+  }),
 
-// Most active MON traders
-app.get("/mon/most-active-traders", async (c) => {
-  try {
-    const limit = parseInt(c.req.query("limit") || "10");
-    const result = await queries.getMostActiveMonTraders24h(db, limit);
-    return c.json({
-      success: true,
-      data: result,
+  // Most active MON traders
+  defineRoute({
+    path: "/mon/most-active-traders",
+    group: "mon",
+    summary: "Most active MON traders by volume",
+    cacheTtl: 30,
+    params: { chain: chainParam, window: windowParams, limit: limitParam(10) },
+    response: responses.mostActiveMonTraders,
+    handler: async ({ chain, window, limit }) => ({
+      data: await queries.getMostActiveMonTraders(db, window, limit, chain?.id),
       meta: {
-        description: "Most active MON traders by volume (24h)",
+        description: `Most active MON traders by volume (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
         limit,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      },
+    }),
+  }),
 
-// ==============================================
-// 📊 NETWORK ANALYTICS ENDPOINTS
-// ==============================================
+  // ==============================================
+  // 🪙 ERC-20 TOKEN ANALYTICS ENDPOINTS
+  // ==============================================
 
-// Network overview
-app.get("/network/overview", async (c) => {
-  try {
-    const result = await queries.getNetworkOverview24h(db);
-    return c.json({
-      success: true,
-      data: result,
+  // Top tokens by transfer volume
+  defineRoute({
+    path: "/tokens/top-volume",
+    group: "tokens",
+    summary: "Top ERC-20 tokens by transfer volume",
+    cacheTtl: 30,
+    params: { chain: chainParam, window: windowParams, limit: limitParam(10) },
+    response: responses.topTokensByVolume,
+    handler: async ({ chain, window, limit }) => ({
+      data: await queries.getTopTokensByVolume(db, window, limit, chain?.id),
       meta: {
-        description: "Network overview statistics (24h)",
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+        description: `Top ERC-20 tokens by transfer count and volume (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
+        limit,
+      },
+    }),
+  }),
+
+  // Most active holders of a token
+  defineRoute({
+    path: "/tokens/:address/holders",
+    group: "tokens",
+    summary: "Most active holders of an ERC-20 token",
+    cacheTtl: 30,
+    params: {
+      address: addressParam("Token contract address"),
+      chain: chainParam,
+      window: windowParams,
+      limit: limitParam(10),
+    },
+    response: responses.tokenHolders,
+    handler: async ({ address, chain, window, limit }) => {
+      const token = await queries.getTokenByAddress(db, address, chain?.id);
+      const result = await queries.getTokenHoldersByActivity(db, address, window, limit, chain?.id);
+      return {
+        data: result,
+        meta: {
+          description: `Most active holders of token ${address} (${window.label})`,
+          chain: chain?.name ?? "all",
+          window: describeWindow(window),
+          address,
+          token,
+          limit,
+        },
+      };
+    },
+  }),
+
+  // ==============================================
+  // 📊 NETWORK ANALYTICS ENDPOINTS
+  // ==============================================
+
+  // Network overview
+  defineRoute({
+    path: "/network/overview",
+    group: "network",
+    summary: "Network overview statistics",
+    example: "/network/overview",
+    cacheTtl: 30,
+    params: { chain: chainParam, window: windowParams },
+    response: responses.networkOverview,
+    handler: async ({ chain, window }) => ({
+      data: await queries.getNetworkOverview(db, window, chain?.id),
+      meta: {
+        description: `Network overview statistics (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
+      },
+    }),
+  }),
 
-// Transaction type breakdown
-app.get("/network/transaction-types", async (c) => {
-  try {
-    const result = await queries.getTransactionTypeBreakdown24h(db);
-    return c.json({
-      success: true,
-      data: result,
+  // Transaction type breakdown
+  defineRoute({
+    path: "/network/transaction-types",
+    group: "network",
+    summary: "Transaction type breakdown",
+    cacheTtl: 30,
+    params: { chain: chainParam, window: windowParams },
+    response: responses.transactionTypeBreakdown,
+    handler: async ({ chain, window }) => ({
+      data: await queries.getTransactionTypeBreakdown(db, window, chain?.id),
       meta: {
-        description: "Transaction type breakdown (24h)",
-        timestamp: new Date().toISOString()
+        description: `Transaction type breakdown (${window.label})`,
+        chain: chain?.name ?? "all",
+        window: describeWindow(window),
+      },
+    }),
+  }),
+
+  // ==============================================
+  // 📈 TIME SERIES ENDPOINTS
+  // ==============================================
+
+  // Zero-filled time series for a metric
+  defineRoute({
+    path: "/timeseries/:metric",
+    group: "timeseries",
+    summary: "Zero-filled time series for a metric",
+    example: "/timeseries/transactions?interval=1h",
+    cacheTtl: 30,
+    params: {
+      metric: enumParam(queries.TIMESERIES_METRICS, { in: "path", description: "Metric to chart" }),
+      chain: chainParam,
+      interval: enumParam(Object.keys(queries.TIMESERIES_INTERVALS) as queries.TimeSeriesInterval[], {
+        description: "Bucket size",
+        default: "1h",
+      }),
+      from: uintParam("Start timestamp, unix seconds (default: 24h before to)"),
+      to: uintParam("End timestamp, unix seconds (default: now)"),
+    },
+    response: responses.timeSeries,
+    handler: async ({ metric, chain, interval, from: fromParam, to: toParam }) => {
+      const intervalSeconds = queries.TIMESERIES_INTERVALS[interval];
+      const to = toParam ?? BigInt(Math.floor(Date.now() / 1000));
+      const from = fromParam ?? to - 24n * 60n * 60n;
+
+      if (from > to) {
+        throw new ApiError(400, "INVALID_RANGE", "from must not be after to", "from");
       }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
 
-// ==============================================
-// 🔍 DETAILED LOOKUP ENDPOINTS
-// ==============================================
+      const bucketCount = Number((to - from) / BigInt(intervalSeconds)) + 1;
+      if (bucketCount > queries.TIMESERIES_MAX_BUCKETS) {
+        throw new ApiError(
+          400,
+          "INVALID_RANGE",
+          `Range too large: ${bucketCount} buckets requested, maximum is ${queries.TIMESERIES_MAX_BUCKETS}. Use a larger interval.`,
+          "interval"
+        );
+      }
 
-// Get contract details
-app.get("/contract/:address", async (c) => {
-  try {
-    const address = c.req.param("address");
-    const days = parseInt(c.req.query("days") || "7");
-    
-    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
-      return c.json({ 
-        success: false, 
-        error: "Invalid contract address format" 
-      }, 400);
-    }
-    
-    const result = await queries.getContractDetails(db, address, days);
-    return c.json({
-      success: true,
-      data: result,
+      const result = await queries.getTimeSeries(db, metric, from, to, intervalSeconds, chain?.id);
+      return {
+        data: result,
+        meta: {
+          description: `${metric} time series (${interval} buckets)`,
+          chain: chain?.name ?? "all",
+          metric,
+          interval,
+          from,
+          to,
+          buckets: result.length,
+        },
+      };
+    },
+  }),
+
+  // ==============================================
+  // 🔍 DETAILED LOOKUP ENDPOINTS
+  // ==============================================
+
+  // Get contract details
+  defineRoute({
+    path: "/contract/:address",
+    group: "lookups",
+    summary: "Get detailed contract analytics",
+    example: "/contract/0x123...?days=30",
+    cacheTtl: 30,
+    params: { address: addressParam("Contract address"), chain: chainParam, days: daysParam },
+    response: responses.contractDetails,
+    handler: async ({ address, chain, days }) => ({
+      data: await queries.getContractDetails(db, address, days, chain?.id),
       meta: {
         description: `Contract details for ${address}`,
+        chain: chain?.name ?? "all",
         address,
         days,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      },
+    }),
+  }),
 
-// Get wallet details
-app.get("/wallet/:address", async (c) => {
-  try {
-    const address = c.req.param("address");
-    const days = parseInt(c.req.query("days") || "7");
-    
-    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
-      return c.json({ 
-        success: false, 
-        error: "Invalid wallet address format" 
-      }, 400);
-    }
-    
-    const result = await queries.getWalletDetails(db, address, days);
-    return c.json({
-      success: true,
-      data: result,
+  // Get wallet details
+  defineRoute({
+    path: "/wallet/:address",
+    group: "lookups",
+    summary: "Get detailed wallet analytics",
+    cacheTtl: 30,
+    params: { address: addressParam("Wallet address"), chain: chainParam, days: daysParam },
+    response: responses.walletDetails,
+    handler: async ({ address, chain, days }) => ({
+      data: await queries.getWalletDetails(db, address, days, chain?.id),
       meta: {
         description: `Wallet details for ${address}`,
+        chain: chain?.name ?? "all",
         address,
         days,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      },
+    }),
+  }),
 
-// ==============================================
-// 💳 INDIVIDUAL TRANSACTION ENDPOINTS
-// ==============================================
+  // ==============================================
+  // 💳 INDIVIDUAL TRANSACTION ENDPOINTS
+  // ==============================================
 
-// Get recent transactions (for Transaction Log interface)
-app.get("/transactions/recent", async (c) => {
-  try {
-    const limit = parseInt(c.req.query("limit") || "50");
-    const result = await queries.getRecentTransactions(db, limit);
-    return c.json({
-      success: true,
-      data: result,
-      meta: {
-        description: "Recent transactions across all blocks",
-        limit,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+  // Get recent transactions (for Transaction Log interface)
+  defineRoute({
+    path: "/transactions/recent",
+    group: "transactions",
+    summary: "Get recent transactions (for Transaction Log)",
+    example: "/transactions/recent?limit=100",
+    cacheTtl: 10,
+    params: { chain: chainParam, list: transactionListParams },
+    response: responses.recentTransactions,
+    handler: async ({ chain, list }) => {
+      const result = await queries.getRecentTransactions(db, list, chain?.id);
+      return {
+        data: result.items,
+        meta: {
+          description: "Recent transactions across all blocks",
+          chain: chain?.name ?? "all",
+          limit: list.limit,
+          count: result.items.length,
+          nextCursor: result.nextCursor,
+          prevCursor: result.prevCursor,
+        },
+      };
+    },
+  }),
 
-// Get transactions by block number
-app.get("/transactions/block/:blockNumber", async (c) => {
-  try {
-    const blockNumber = BigInt(c.req.param("blockNumber"));
-    const result = await queries.getTransactionsByBlock(db, blockNumber);
-    return c.json({
-      success: true,
-      data: result,
-      meta: {
-        description: `Transactions in block ${blockNumber}`,
-        blockNumber: blockNumber.toString(),
-        count: result.length,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+  // Get transactions by block number
+  defineRoute({
+    path: "/transactions/block/:blockNumber",
+    group: "transactions",
+    summary: "Get all transactions in a specific block",
+    cacheTtl: 300,
+    params: { blockNumber: blockNumberParam("Block number"), chain: chainParam },
+    response: responses.blockTransactions,
+    handler: async ({ blockNumber, chain }) => {
+      const result = await queries.getTransactionsByBlock(db, blockNumber, chain?.id);
+      return {
+        data: result,
+        meta: {
+          description: `Transactions in block ${blockNumber}`,
+          chain: chain?.name ?? "all",
+          blockNumber,
+          count: result.length,
+        },
+      };
+    },
+  }),
 
-// Get transactions by wallet address
-app.get("/transactions/wallet/:address", async (c) => {
-  try {
-    const address = c.req.param("address");
-    const limit = parseInt(c.req.query("limit") || "50");
-    
-    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
-      return c.json({ 
-        success: false, 
-        error: "Invalid wallet address format" 
-      }, 400);
-    }
-    
-    const result = await queries.getTransactionsByWallet(db, address, limit);
-    return c.json({
-      success: true,
-      data: result,
-      meta: {
-        description: `Transactions for wallet ${address}`,
-        address,
-        limit,
-        count: result.length,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+  // Get transactions by wallet address
+  defineRoute({
+    path: "/transactions/wallet/:address",
+    group: "transactions",
+    summary: "Get transactions for a specific wallet",
+    example: "/transactions/wallet/0x123...?limit=50",
+    cacheTtl: 10,
+    params: {
+      address: addressParam("Wallet address"),
+      chain: chainParam,
+      list: transactionListParams,
+      direction: enumParam(["in", "out"] as const, { description: "Only incoming or outgoing transactions" }),
+    },
+    response: responses.walletTransactions,
+    handler: async ({ address, chain, list, direction }) => {
+      const result = await queries.getTransactionsByWallet(db, address, { ...list, direction }, chain?.id);
+      return {
+        data: result.items,
+        meta: {
+          description: `Transactions for wallet ${address}`,
+          chain: chain?.name ?? "all",
+          address,
+          direction: direction ?? "all",
+          limit: list.limit,
+          count: result.items.length,
+          nextCursor: result.nextCursor,
+          prevCursor: result.prevCursor,
+        },
+      };
+    },
+  }),
 
-// Get transaction by hash
-app.get("/transactions/:hash", async (c) => {
-  try {
-    const hash = c.req.param("hash");
-    
-    if (!hash || !/^0x[a-fA-F0-9]{64}$/.test(hash)) {
-      return c.json({ 
-        success: false, 
-        error: "Invalid transaction hash format" 
-      }, 400);
-    }
-    
-    const result = await queries.getTransactionByHash(db, hash);
-    
-    if (!result) {
-      return c.json({ 
-        success: false, 
-        error: "Transaction not found" 
-      }, 404);
-    }
-    
-    return c.json({
-      success: true,
-      data: result,
-      meta: {
-        description: `Transaction details for ${hash}`,
-        hash,
-        timestamp: new Date().toISOString()
+  // Get transaction by hash
+  defineRoute({
+    path: "/transactions/:hash",
+    group: "transactions",
+    summary: "Get transaction details by hash",
+    example: "/transactions/0xabc123...",
+    cacheTtl: 300,
+    params: { hash: hashParam("Transaction hash"), chain: chainParam },
+    response: responses.transaction,
+    handler: async ({ hash, chain }) => {
+      const result = await queries.getTransactionByHash(db, hash, chain?.id);
+      if (!result) {
+        throw new ApiError(404, "NOT_FOUND", "Transaction not found");
       }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+      return {
+        data: result,
+        meta: {
+          description: `Transaction details for ${hash}`,
+          chain: chain?.name ?? "all",
+          hash,
+        },
+      };
+    },
+  }),
 
-// Get transactions by type
-app.get("/transactions/type/:type", async (c) => {
-  try {
-    const txType = c.req.param("type");
-    const limit = parseInt(c.req.query("limit") || "50");
-    
-    const validTypes = ["transfer", "swap", "mint", "burn", "stake", "other"];
-    if (!validTypes.includes(txType)) {
-      return c.json({ 
-        success: false, 
-        error: `Invalid transaction type. Valid types: ${validTypes.join(", ")}` 
-      }, 400);
-    }
-    
-    const result = await queries.getTransactionsByType(db, txType, limit);
-    return c.json({
-      success: true,
-      data: result,
-      meta: {
-        description: `${txType} transactions`,
-        type: txType,
-        limit,
-        count: result.length,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+  // Get transactions by type
+  defineRoute({
+    path: "/transactions/type/:type",
+    group: "transactions",
+    summary: "Get transactions by type",
+    example: "/transactions/type/swap?limit=25",
+    cacheTtl: 10,
+    params: {
+      type: enumParam(getTransactionCategories(), { in: "path", description: "Transaction type" }),
+      chain: chainParam,
+      list: transactionListParams,
+    },
+    response: responses.transactionsByType,
+    handler: async ({ type, chain, list }) => {
+      const result = await queries.getTransactionsByType(db, type, list, chain?.id);
+      return {
+        data: result.items,
+        meta: {
+          description: `${type} transactions`,
+          chain: chain?.name ?? "all",
+          type,
+          limit: list.limit,
+          count: result.items.length,
+          nextCursor: result.nextCursor,
+          prevCursor: result.prevCursor,
+        },
+      };
+    },
+  }),
 
-// Get transactions by contract address
-app.get("/transactions/contract/:address", async (c) => {
-  try {
-    const address = c.req.param("address");
-    const limit = parseInt(c.req.query("limit") || "50");
-    
-    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
-      return c.json({ 
-        success: false, 
-        error: "Invalid contract address format" 
-      }, 400);
-    }
-    
-    const result = await queries.getTransactionsByContract(db, address, limit);
-    return c.json({
-      success: true,
-      data: result,
-      meta: {
-        description: `Transactions for contract ${address}`,
-        address,
-        limit,
-        count: result.length,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    return c.json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
-  }
-});
+  // Get transactions by contract address
+  defineRoute({
+    path: "/transactions/contract/:address",
+    group: "transactions",
+    summary: "Get transactions for a specific contract",
+    cacheTtl: 10,
+    params: { address: addressParam("Contract address"), chain: chainParam, list: transactionListParams },
+    response: responses.contractTransactions,
+    handler: async ({ address, chain, list }) => {
+      const result = await queries.getTransactionsByContract(db, address, list, chain?.id);
+      return {
+        data: result.items,
+        meta: {
+          description: `Transactions for contract ${address}`,
+          chain: chain?.name ?? "all",
+          address,
+          limit: list.limit,
+          count: result.items.length,
+          nextCursor: result.nextCursor,
+          prevCursor: result.prevCursor,
+        },
+      };
+    },
+  }),
+
+  // ==============================================
+  // 🚨 ALERT ENDPOINTS
+  // ==============================================
+
+  // Alerts raised by the alert rules
+  defineRoute({
+    path: "/alerts",
+    group: "alerts",
+    summary: "Alerts raised by the alert rules, newest first",
+    example: "/alerts?severity=warning&window=7d",
+    cacheTtl: 10,
+    params: {
+      chain: chainParam,
+      window: windowParams,
+      limit: limitParam(50),
+      rule: enumParam(getAlertRules().map((rule) => rule.id), { description: "Only alerts raised by this rule" }),
+      kind: enumParam(ALERT_KINDS, { description: "Only alerts of this kind" }),
+      severity: enumParam(ALERT_SEVERITIES, { description: "Only alerts of this severity" }),
+      address: addressQueryParam("Only alerts about this wallet or contract"),
+    },
+    response: responses.alerts,
+    handler: async ({ chain, window, limit, rule, kind, severity, address }) => {
+      const result = await queries.getAlerts(db, window, { limit, ruleId: rule, kind, severity, address }, chain?.id);
+      return {
+        data: result,
+        meta: {
+          description: `Alerts (${window.label})`,
+          chain: chain?.name ?? "all",
+          window: describeWindow(window),
+          limit,
+          count: result.length,
+        },
+      };
+    },
+  }),
+
+  // Active alert rules
+  defineRoute({
+    path: "/alerts/rules",
+    group: "alerts",
+    summary: "Active alert rules",
+    params: {},
+    response: responses.alertRules,
+    handler: () => {
+      const rules = getAlertRules();
+      return {
+        data: [...rules],
+        meta: {
+          description: "Active alert rules, after ALERT_RULES_FILE overrides",
+          count: rules.length,
+        },
+      };
+    },
+  }),
+
+  // ==============================================
+  // 🏷️ CLASSIFIER ENDPOINTS
+  // ==============================================
+
+  // Active transaction classifier rules
+  defineRoute({
+    path: "/classifier/rules",
+    group: "classifier",
+    summary: "Active transaction classifier rules and categories",
+    params: {},
+    response: responses.classifierRules,
+    handler: () => {
+      const rules = getClassifierRules();
+      return {
+        data: { categories: getTransactionCategories(), rules },
+        meta: {
+          description: "Active transaction classifier rules in match order",
+          count: rules.length,
+        },
+      };
+    },
+  }),
+];
+
+for (const route of routes) {
+  registerRoute(app, route);
+}
+
+// Route table keyed by path; the typed client in client.ts is built from this
+export type AnalyticsRoutes = RouteMap<(typeof routes)[number]>;
 
 // ==============================================
 // 📋 API DOCUMENTATION ENDPOINT
 // ==============================================
 
-// API documentation
-app.get("/", async (c) => {
-  return c.json({
+// One-line summary of a parameter, e.g. "Number of results to return (default: 10; 1-100)"
+function describeParam(doc: ParamDoc): string {
+  const details: string[] = [];
+  if (doc.required) details.push("required");
+  if (doc.enum) details.push(`one of: ${doc.enum.join(", ")}`);
+  if (doc.default !== undefined) details.push(`default: ${doc.default}`);
+  if (doc.minimum !== undefined && doc.maximum !== undefined && doc.maximum < Number.MAX_SAFE_INTEGER) {
+    details.push(`${doc.minimum}-${doc.maximum}`);
+  }
+  return details.length > 0 ? `${doc.description} (${details.join("; ")})` : doc.description;
+}
+
+// API documentation, generated from the route table above
+app.get("/", () => {
+  const endpoints: Record<string, Record<string, { description: string; parameters: Record<string, string> }>> = {};
+  const examples: Record<string, string> = {};
+
+  for (const route of routes) {
+    const group = (endpoints[route.group] ??= {});
+    group[route.path] = {
+      description: route.summary,
+      parameters: Object.fromEntries(
+        listParams(route.params).map(([name, doc]) => [name, describeParam(doc)])
+      ),
+    };
+    if (route.example) {
+      examples[route.summary] = `/analytics${route.example}`;
+    }
+  }
+
+  return jsonResponse({
     success: true,
     message: "Monad Analytics API",
     version: "1.0.0",
-    endpoints: {
-      contracts: {
-        "/contracts/most-used": "Most used contracts by transaction count (24h)",
-        "/contracts/most-popular": "Most popular contracts by unique wallets (24h)",
-        "/contracts/top-gas": "Top gas-consuming contracts (24h)",
-        "/contracts/most-efficient": "Most gas-efficient contracts (24h)"
-      },
-      wallets: {
-        "/wallets/top-gas": "Top gas-spending wallets (24h)",
-        "/wallets/most-active": "Most active wallets by contract interactions (24h)"
-      },
-      mon: {
-        "/mon/top-senders": "Top MON senders by volume (24h)",
-        "/mon/top-receivers": "Top MON receivers by volume (24h)",
-        "/mon/largest-transfers": "Largest single MON transfers (24h)",
-        "/mon/most-active-traders": "Most active MON traders by volume (24h)"
-      },
-      network: {
-        "/network/overview": "Network overview statistics (24h)",
-        "/network/transaction-types": "Transaction type breakdown (24h)"
-      },
-      lookups: {
-        "/contract/:address": "Get detailed contract analytics",
-        "/wallet/:address": "Get detailed wallet analytics"
-      },
-      transactions: {
-        "/transactions/recent": "Get recent transactions (for Transaction Log)",
-        "/transactions/block/:blockNumber": "Get all transactions in a specific block",
-        "/transactions/wallet/:address": "Get transactions for a specific wallet",
-        "/transactions/:hash": "Get transaction details by hash",
-        "/transactions/type/:type": "Get transactions by type (transfer, swap, mint, burn, stake, other)",
-        "/transactions/contract/:address": "Get transactions for a specific contract"
-      }
-    },
-    parameters: {
-      "limit": "Number of results to return (default: 10)",
-      "days": "Number of days to look back (default: 7)",
-      "minTxs": "Minimum transactions for efficiency ranking (default: 100)"
-    },
-          examples: {
-        "Most used contracts": "/analytics/contracts/most-used?limit=20",
-        "Top gas wallets": "/analytics/wallets/top-gas?limit=15",
-        "Contract details": "/analytics/contract/0x123...?days=30",
-        "Network overview": "/analytics/network/overview",
-        "Recent transactions": "/analytics/transactions/recent?limit=100",
-        "Wallet transactions": "/analytics/transactions/wallet/0x123...?limit=50",
-        "Transaction by hash": "/analytics/transactions/0xabc123...",
-        "Swap transactions": "/analytics/transactions/type/swap?limit=25"
-      }
+    openapi: "/analytics/openapi.json",
+    endpoints,
+    examples,
   });
 });
 
-export default app; 
\ No newline at end of file
+// OpenAPI 3 document, generated from the same route table
+app.get("/openapi.json", () => jsonResponse(buildOpenApiDocument(routes)));
+
+export default app;
@@ -0,0 +1,68 @@
+import type { Context, MiddlewareHandler } from "hono";
+import {
+  authorizeRequest,
+  describeApiKey,
+  extractApiKey,
+  isApiKeyAuthEnabled,
+  listApiKeys,
+  type ApiKey,
+} from "../api-keys";
+import { errorResponse, jsonResponse } from "./router";
+import { ApiError } from "./validation";
+
+// API key middleware for every route registered after it. WebSocket handshakes
+// are checked by the streaming server itself; see upgradeWebSocket().
+
+declare module "hono" {
+  interface ContextVariableMap {
+    apiKey?: ApiKey;
+  }
+}
+
+export function requireApiKey(): MiddlewareHandler {
+  return async (c, next) => {
+    const result = authorizeRequest(extractApiKey((name) => c.req.header(name)));
+    if (!result.ok) {
+      const response = errorResponse(new ApiError(result.status, result.code, result.message));
+      if (result.retryAfterSeconds !== undefined) {
+        response.headers.set("Retry-After", String(result.retryAfterSeconds));
+      }
+      return response;
+    }
+
+    c.set("apiKey", result.key);
+    await next();
+
+    if (result.limit !== undefined) {
+      c.res.headers.set("X-RateLimit-Limit", String(result.limit));
+      c.res.headers.set("X-RateLimit-Remaining", String(result.remaining));
+      c.res.headers.set("X-RateLimit-Reset", String(result.resetSeconds));
+    }
+  };
+}
+
+// For routes that expose other callers' details; refused outright when no
+// API keys are configured, since every caller would then be anonymous
+export function requireAdminKey(): MiddlewareHandler {
+  return async (c, next) => {
+    if (!isApiKeyAuthEnabled()) {
+      return errorResponse(new ApiError(403, "FORBIDDEN", "This route needs an admin API key; none are configured"));
+    }
+    if (!c.get("apiKey")?.admin) {
+      return errorResponse(new ApiError(403, "FORBIDDEN", "This route needs an admin API key"));
+    }
+    await next();
+  };
+}
+
+// GET /api-keys/usage: the calling key's quotas and usage, or every key's for admin keys
+export function apiKeyUsage(c: Context): Response {
+  if (!isApiKeyAuthEnabled()) {
+    return jsonResponse({ success: true, data: { enabled: false, keys: [] } });
+  }
+  const key = c.get("apiKey")!;
+  return jsonResponse({
+    success: true,
+    data: { enabled: true, keys: key.admin ? listApiKeys() : [describeApiKey(key)] },
+  });
+}
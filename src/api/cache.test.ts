@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryCacheBackend } from "./cache";
+
+// The cache module reads heads through Ponder's API database; these tests only use the store
+vi.mock("ponder:api", () => ({ db: {} }));
+
+const entry = (body: string) => ({ body, etag: `"${body}"` });
+
+describe("MemoryCacheBackend", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns stored entries until they expire", async () => {
+    const cache = new MemoryCacheBackend(10);
+    await cache.set("a", entry("a"), 30);
+
+    vi.advanceTimersByTime(29_999);
+    expect(await cache.get("a")).toEqual(entry("a"));
+    vi.advanceTimersByTime(1);
+    expect(await cache.get("a")).toBeUndefined();
+    expect(await cache.get("missing")).toBeUndefined();
+  });
+
+  it("evicts the least recently used entry once full", async () => {
+    const cache = new MemoryCacheBackend(2);
+    await cache.set("a", entry("a"), 60);
+    await cache.set("b", entry("b"), 60);
+    await cache.get("a");
+    await cache.set("c", entry("c"), 60);
+
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("a")).toEqual(entry("a"));
+    expect(await cache.get("c")).toEqual(entry("c"));
+  });
+
+  it("replaces an entry and its expiry on set", async () => {
+    const cache = new MemoryCacheBackend(2);
+    await cache.set("a", entry("old"), 10);
+    vi.advanceTimersByTime(5_000);
+    await cache.set("a", entry("new"), 10);
+    await cache.set("b", entry("b"), 10);
+
+    vi.advanceTimersByTime(9_000);
+    expect(await cache.get("a")).toEqual(entry("new"));
+    expect(await cache.get("b")).toEqual(entry("b"));
+  });
+});
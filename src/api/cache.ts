@@ -0,0 +1,147 @@
+import { db } from "ponder:api";
+import { createHash } from "crypto";
+import type { Context } from "hono";
+import { chains } from "../../chains";
+import { logger } from "../logger";
+import { getIndexedHead } from "../queries-examples";
+
+// Response cache for the analytics API.
+//
+// Entries are keyed by the request and the latest indexed block of the chains
+// it reads, so an entry is replaced as soon as a new block (or a reorg) lands,
+// not when a timer runs out. The per-route TTL only bounds how long an entry
+// lives while no blocks are indexed, e.g. for windows ending "now".
+//
+// Entries are plain JSON, so any key-value store with expiry can hold them:
+// implement CacheBackend and pass it to setCacheBackend().
+
+export interface CachedResponse {
+  body: string; // Serialized response envelope
+  etag: string;
+}
+
+export interface CacheBackend {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, value: CachedResponse, ttlSeconds: number): Promise<void>;
+}
+
+// In-process LRU with per-entry expiry
+export class MemoryCacheBackend implements CacheBackend {
+  private readonly entries = new Map<string, { value: CachedResponse; expiresAt: number }>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    this.entries.set(key, entry); // Most recently used last
+    return entry.value;
+  }
+
+  async set(key: string, value: CachedResponse, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+const log = logger.child({ module: "api-cache" });
+
+const MAX_ENTRIES = parseInt(process.env.API_CACHE_MAX_ENTRIES || "1000");
+
+let backend: CacheBackend | undefined =
+  process.env.API_CACHE === "off" || MAX_ENTRIES <= 0 ? undefined : new MemoryCacheBackend(MAX_ENTRIES);
+
+// Replace the cache store; undefined turns caching off (ETags are still sent)
+export function setCacheBackend(next: CacheBackend | undefined) {
+  backend = next;
+}
+
+// Renders in progress, so concurrent identical requests share one set of queries
+const pending = new Map<string, Promise<CachedResponse>>();
+
+function etagOf(body: string): string {
+  return `"${createHash("sha1").update(body).digest("base64url")}"`;
+}
+
+// Latest indexed block of each chain a request reads, e.g. "143:1234:9a8b7c6d"
+async function headStamp(chainId: number | undefined): Promise<string> {
+  const chainIds = chainId === undefined ? chains.map((chain) => chain.id) : [chainId];
+  const heads = await Promise.all(chainIds.map((id) => getIndexedHead(db, id)));
+  return chainIds
+    .map((id, i) => `${id}:${heads[i]?.number ?? "-"}:${heads[i]?.hash?.slice(2, 10) ?? ""}`)
+    .join(",");
+}
+
+// Path and query string with parameters sorted, so equivalent URLs share an entry
+function requestKey(c: Context): string {
+  const query = new URL(c.req.url).searchParams;
+  query.sort();
+  return `${c.req.path}?${query}`;
+}
+
+// Whether If-None-Match lists the ETag (weak comparison, as for GET)
+function notModified(c: Context, etag: string): boolean {
+  const header = c.req.header("if-none-match");
+  if (!header) return false;
+  return header === "*" || header.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag);
+}
+
+function respond(c: Context, entry: CachedResponse, cacheStatus: "HIT" | "MISS" | "BYPASS"): Response {
+  // Clients may keep the body but must revalidate; a 304 costs one head lookup
+  const headers: Record<string, string> = {
+    ETag: entry.etag,
+    "Cache-Control": "no-cache",
+    "X-Cache": cacheStatus,
+  };
+  if (notModified(c, entry.etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(entry.body, {
+    status: 200,
+    headers: { ...headers, "Content-Type": "application/json; charset=UTF-8" },
+  });
+}
+
+// Serve a route from the cache, rendering it at most once per request and
+// indexed head. A failing store is skipped rather than failing the request.
+export async function cachedResponse(
+  c: Context,
+  ttlSeconds: number,
+  chainId: number | undefined,
+  render: () => Promise<string>
+): Promise<Response> {
+  const store = backend;
+  if (!store) {
+    const body = await render();
+    return respond(c, { body, etag: etagOf(body) }, "BYPASS");
+  }
+
+  const key = `${requestKey(c)}@${await headStamp(chainId)}`;
+  const cached = await store.get(key).catch((error) => {
+    log.warn("Response cache read failed", { error });
+    return undefined;
+  });
+  if (cached) return respond(c, cached, "HIT");
+
+  let entry = pending.get(key);
+  if (!entry) {
+    entry = render().then((body) => ({ body, etag: etagOf(body) }));
+    pending.set(key, entry);
+    entry
+      .then(
+        (value) =>
+          store.set(key, value, ttlSeconds).catch((error) => {
+            log.warn("Response cache write failed", { error });
+          }),
+        () => {} // Render errors reach the waiting requests
+      )
+      .finally(() => pending.delete(key));
+  }
+  return respond(c, await entry, "MISS");
+}
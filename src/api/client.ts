@@ -0,0 +1,105 @@
+import type { AnalyticsRoutes } from "./analytics";
+import type { Infer, Wire } from "./schema";
+import type { ErrorCode, RawParamNames } from "./validation";
+
+// Typed client for the analytics API, for the frontend and scripts.
+//
+// Only types are imported from the server modules, so bundling this file does
+// not pull in ponder or the database. Paths, parameters and response shapes all
+// come from the route table in analytics.ts:
+//
+//   const api = createAnalyticsClient("http://localhost:42069/analytics");
+//   const { data, meta } = await api.get("/wallet/:address", { address, chain: "testnet" });
+
+export type AnalyticsPath = keyof AnalyticsRoutes;
+
+// "/transactions/wallet/:address" -> "address"
+type PathParamNames<P extends string> = P extends `${string}:${infer Name}/${infer Rest}`
+  ? Name | PathParamNames<`/${Rest}`>
+  : P extends `${string}:${infer Name}`
+    ? Name
+    : never;
+
+type ParamValue = string | number | boolean | bigint;
+
+type RouteParams<P extends AnalyticsPath> = AnalyticsRoutes[P] extends { params: infer S extends Record<string, any> }
+  ? RawParamNames<S>
+  : never;
+
+export type AnalyticsParams<P extends AnalyticsPath> = { [K in PathParamNames<P>]: ParamValue } & {
+  [K in Exclude<RouteParams<P>, PathParamNames<P>>]?: ParamValue;
+};
+
+export type AnalyticsData<P extends AnalyticsPath> = Infer<AnalyticsRoutes[P]["response"]>;
+
+export type AnalyticsMeta<P extends AnalyticsPath> = AnalyticsRoutes[P] extends {
+  handler: (...args: any[]) => infer Result;
+}
+  ? Wire<Awaited<Result> extends { meta: infer M } ? M : never> & { timestamp: string }
+  : never;
+
+export interface AnalyticsResponse<P extends AnalyticsPath> {
+  success: true;
+  data: AnalyticsData<P>;
+  meta: AnalyticsMeta<P>;
+}
+
+export class AnalyticsClientError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    readonly param?: string
+  ) {
+    super(message);
+    this.name = "AnalyticsClientError";
+  }
+}
+
+export interface AnalyticsClientOptions {
+  fetch?: typeof fetch;
+  headers?: Record<string, string>;
+}
+
+export function createAnalyticsClient(baseUrl: string, options: AnalyticsClientOptions = {}) {
+  const fetchImpl = options.fetch ?? fetch;
+  const base = baseUrl.replace(/\/$/, "");
+
+  async function get<P extends AnalyticsPath>(
+    path: P,
+    ...[params]: PathParamNames<P> extends never ? [params?: AnalyticsParams<P>] : [params: AnalyticsParams<P>]
+  ): Promise<AnalyticsResponse<P>> {
+    const values: Record<string, ParamValue | undefined> = { ...params };
+    const query = new URLSearchParams();
+
+    const resolved = path.replace(/:(\w+)/g, (_match, name: string) => {
+      const value = values[name];
+      delete values[name];
+      return encodeURIComponent(String(value));
+    });
+    for (const [name, value] of Object.entries(values)) {
+      if (value !== undefined) query.set(name, String(value));
+    }
+
+    const search = query.toString();
+    const url = `${base}${resolved}${search ? `?${search}` : ""}`;
+    const response = await fetchImpl(url, { headers: options.headers });
+    const body = (await response.json()) as
+      | AnalyticsResponse<P>
+      | { success: false; error?: string; code?: ErrorCode; param?: string };
+
+    if (!body.success) {
+      throw new AnalyticsClientError(
+        response.status,
+        body.code ?? "INTERNAL_ERROR",
+        body.error ?? response.statusText,
+        body.param
+      );
+    }
+    return body as AnalyticsResponse<P>;
+  }
+
+  return { get };
+}
+
+export type AnalyticsClient = ReturnType<typeof createAnalyticsClient>;
@@ -2,13 +2,65 @@ import { db } from "ponder:api";
 import schema from "ponder:schema";
 import { Hono } from "hono";
 import { client, graphql } from "ponder";
+import type { IncomingMessage } from "node:http";
 import analytics from "./analytics";
+import { apiKeyUsage, requireAdminKey, requireApiKey } from "./auth";
+import { appMetrics } from "./metrics";
+import { jsonResponse } from "./router";
+import { appStatus } from "./status";
+import webhooks from "./webhooks";
+import { startWebhookDelivery } from "../webhooks";
+import { getWebSocketClientStats, getWebSocketHealth, startWebSocketServer, upgradeWebSocket } from "../websocket";
 
 const app = new Hono();
 
+// Streaming server: its own port by default, or an upgrade route on this app
+// with WS_MODE=api, so one port serves REST, GraphQL and streaming. The
+// handshake checks the API key and connection quota itself.
+const streaming = startWebSocketServer();
+
+if (streaming.mode === "api") {
+  app.get(streaming.healthPath, (c) => c.json(getWebSocketHealth()));
+  app.get(streaming.path, async (c, next) => {
+    // Plain requests fall through to the routes below
+    if (c.req.header("upgrade")?.toLowerCase() !== "websocket") {
+      return next();
+    }
+    // Ponder serves this app through @hono/node-server, which exposes the raw request
+    const { incoming } = c.env as { incoming: IncomingMessage };
+    if (!upgradeWebSocket(incoming, incoming.socket)) {
+      return c.text("Streaming is not running", 503);
+    }
+    // The socket now belongs to the WebSocket server; tell the adapter not to write a response
+    return new Response(null, { headers: { "x-hono-already-sent": "true" } });
+  });
+}
+
+// Outbound webhooks for registered subscriptions; a no-op without DATABASE_URL
+startWebhookDelivery();
+
+// Everything below needs an API key once keys are configured
+app.use("*", requireApiKey());
+
+app.get("/api-keys/usage", apiKeyUsage);
+
+// Per-client WebSocket delivery stats, with each client's key and address
+app.get("/websocket/clients", requireAdminKey(), (c) =>
+  jsonResponse({ success: true, data: getWebSocketClientStats() })
+);
+
+// Prometheus metrics; Ponder serves its own on /metrics
+app.get("/metrics/app", appMetrics);
+
+// Indexer status as JSON; Ponder serves its own on /status
+app.get("/status/app", appStatus);
+
 // Analytics API routes
 app.route("/analytics", analytics);
 
+// Webhook subscriptions, delivery log and dead letters
+app.route("/webhooks", webhooks);
+
 // Existing ponder routes
 app.use("/sql/*", client({ db, schema }));
 app.use("/", graphql({ db, schema }));
@@ -0,0 +1,69 @@
+import type { Context } from "hono";
+import { chains } from "../../chains";
+import { listApiKeys } from "../api-keys";
+import {
+  apiKeyRateLimited,
+  apiKeyRequests,
+  chainHeadBlock,
+  chainHeadLag,
+  latestIndexedBlock,
+  renderMetrics,
+  timeRpc,
+  websocketClients,
+  websocketDroppedMessages,
+  websocketQueuedMessages,
+} from "../metrics";
+import { fetchChainHead } from "../status";
+import { getWebSocketHealth } from "../websocket";
+
+// GET /metrics/app: Prometheus metrics of this indexer. Ponder keeps /metrics
+// for its own; scrape both.
+
+// Chain heads are fetched at most this often, however often Prometheus scrapes
+const HEAD_REFRESH_MS = 5_000;
+
+let headsFetchedAt = 0;
+
+// Chain head and lag per chain; a chain whose RPC fails keeps its last values
+async function refreshChainHeads() {
+  if (Date.now() - headsFetchedAt < HEAD_REFRESH_MS) return;
+  headsFetchedAt = Date.now();
+
+  await Promise.all(
+    chains.map(async (chain) => {
+      try {
+        const head = Number(await timeRpc(chain.id, "eth_blockNumber", () => fetchChainHead(chain.rpc)));
+        chainHeadBlock.set({ chain: chain.name }, head);
+        const indexed = latestIndexedBlock.get({ chain: chain.name });
+        if (indexed !== undefined) {
+          chainHeadLag.set({ chain: chain.name }, Math.max(0, head - indexed));
+        }
+      } catch {
+        // Counted in monad_indexer_rpc_errors_total
+      }
+    })
+  );
+}
+
+function refreshWebSocketStats() {
+  const health = getWebSocketHealth();
+  websocketClients.set({}, health.clients);
+  websocketQueuedMessages.set({}, health.queuedMessages);
+  websocketDroppedMessages.set({}, health.droppedMessages);
+}
+
+function refreshApiKeyUsage() {
+  for (const key of listApiKeys()) {
+    apiKeyRequests.set({ key: key.name }, key.usage.requests);
+    apiKeyRateLimited.set({ key: key.name }, key.usage.rateLimited);
+  }
+}
+
+export async function appMetrics(_c: Context): Promise<Response> {
+  await refreshChainHeads();
+  refreshWebSocketStats();
+  refreshApiKeyUsage();
+  return new Response(renderMetrics(), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+  });
+}
@@ -0,0 +1,142 @@
+import type { RouteDefinition } from "./router";
+import type { JsonSchema } from "./schema";
+import { ERROR_CODES, listParams, type ParamDoc } from "./validation";
+
+// OpenAPI 3.0 document for the analytics API, generated from the route table:
+// parameters from the param schemas, `data` from each route's response schema.
+
+function parameterSchema(doc: ParamDoc): JsonSchema {
+  const schema: JsonSchema = { type: doc.type };
+  if (doc.enum) schema.enum = doc.enum;
+  if (doc.pattern) schema.pattern = doc.pattern;
+  if (doc.default !== undefined) schema.default = doc.default;
+  if (doc.minimum !== undefined) schema.minimum = doc.minimum;
+  // MAX_SAFE_INTEGER only means "no upper bound"
+  if (doc.maximum !== undefined && doc.maximum < Number.MAX_SAFE_INTEGER) schema.maximum = doc.maximum;
+  return schema;
+}
+
+// "/contract/:address" -> "/contract/{address}"
+function openApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+// "/transactions/wallet/:address" -> "getTransactionsWalletAddress"
+function operationId(path: string): string {
+  const words = path
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0]!.toUpperCase() + word.slice(1));
+  return `get${words.join("")}`;
+}
+
+const errorResponse = { $ref: "#/components/responses/Error" };
+
+// Cached routes answer conditional requests; see cache.ts
+const ifNoneMatch = {
+  name: "If-None-Match",
+  in: "header",
+  description: "ETag of a previous response; answered with 304 while the data is unchanged",
+  required: false,
+  schema: { type: "string" },
+};
+
+export function buildOpenApiDocument(routes: readonly RouteDefinition<any, any, any, any>[]) {
+  const paths: Record<string, unknown> = {};
+
+  for (const route of routes) {
+    const params = listParams(route.params);
+    const hasPathParams = params.some(([, doc]) => doc.in === "path");
+    const cached = route.cacheTtl !== undefined;
+
+    paths[openApiPath(route.path)] = {
+      get: {
+        operationId: operationId(route.path),
+        summary: route.summary,
+        tags: [route.group],
+        parameters: [
+          ...params.map(([name, doc]) => ({
+            name,
+            in: doc.in,
+            description: doc.description,
+            required: doc.in === "path" || doc.required === true,
+            schema: parameterSchema(doc),
+          })),
+          ...(cached ? [ifNoneMatch] : []),
+        ],
+        responses: {
+          200: {
+            description: route.summary,
+            ...(cached ? { headers: { ETag: { schema: { type: "string" } } } } : {}),
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    success: { type: "boolean", enum: [true] },
+                    data: route.response.json,
+                    meta: {
+                      type: "object",
+                      properties: {
+                        description: { type: "string" },
+                        timestamp: { type: "string", format: "date-time" },
+                      },
+                      required: ["description", "timestamp"],
+                      additionalProperties: true,
+                    },
+                  },
+                  required: ["success", "data", "meta"],
+                },
+              },
+            },
+          },
+          ...(cached ? { 304: { description: "Not modified since the response with the given ETag" } } : {}),
+          400: errorResponse,
+          401: errorResponse,
+          ...(hasPathParams ? { 404: errorResponse } : {}),
+          429: errorResponse,
+          500: errorResponse,
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Monad Analytics API",
+      version: "1.0.0",
+      description: "Analytics over indexed Monad transactions. Bigints (wei amounts, block numbers) are decimal strings.",
+    },
+    servers: [{ url: "/analytics" }],
+    tags: [...new Set(routes.map((route) => route.group))].map((name) => ({ name })),
+    paths,
+    // Only enforced when API keys are configured
+    security: [{ ApiKey: [] }, { Bearer: [] }, {}],
+    components: {
+      securitySchemes: {
+        ApiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        Bearer: { type: "http", scheme: "bearer" },
+      },
+      responses: {
+        Error: {
+          description: "Invalid request, missing or invalid API key, rate limit, unknown resource or server error",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  success: { type: "boolean", enum: [false] },
+                  error: { type: "string" },
+                  code: { type: "string", enum: ERROR_CODES },
+                  param: { type: "string" },
+                },
+                required: ["success", "error", "code"],
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
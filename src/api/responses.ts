@@ -0,0 +1,395 @@
+import { s } from "./schema";
+
+// Response `data` schemas for the analytics routes. Each route's handler is
+// type-checked against its schema, so a column renamed in queries-examples.ts
+// has to be renamed here too, and the OpenAPI document and typed client follow.
+
+const optionalHex = s.nullable(s.hex());
+const optionalBigint = s.nullable(s.bigint());
+const optionalInteger = s.nullable(s.integer());
+const optionalString = s.nullable(s.string());
+
+// ==============================================
+// 🏗️ CONTRACTS
+// ==============================================
+
+export const mostUsedContracts = s.array(
+  s.object({
+    contractAddress: optionalHex,
+    totalTransactions: s.integer(),
+    totalGasUsed: s.bigint(),
+    avgGasPerTx: s.bigint(),
+    primaryTransactionType: s.string(),
+  })
+);
+
+export const mostPopularContracts = s.array(
+  s.object({
+    contractAddress: optionalHex,
+    uniqueWallets: s.integer(),
+    totalTransactions: s.integer(),
+    totalGasUsed: s.bigint(),
+    avgTransactionsPerWallet: s.number(),
+    avgGasPerWallet: s.bigint(),
+  })
+);
+
+export const topGasContracts = s.array(
+  s.object({
+    contractAddress: optionalHex,
+    totalGasUsed: s.bigint(),
+    totalTransactions: s.integer(),
+    avgGasPerTx: s.bigint(),
+    gasPercentOfTotal: s.number(),
+  })
+);
+
+export const mostEfficientContracts = s.array(
+  s.object({
+    contractAddress: optionalHex,
+    avgGasPerTx: s.bigint(),
+    totalTransactions: s.integer(),
+    totalGasUsed: s.bigint(),
+  })
+);
+
+// ==============================================
+// 👛 WALLETS
+// ==============================================
+
+export const topGasWallets = s.array(
+  s.object({
+    walletAddress: optionalHex,
+    totalGasUsed: s.bigint(),
+    totalTransactions: s.integer(),
+    avgGasPerTx: s.bigint(),
+    uniqueContracts: s.integer(),
+    gasPercentOfTotal: s.number(),
+  })
+);
+
+export const mostActiveWallets = s.array(
+  s.object({
+    walletAddress: optionalHex,
+    uniqueContracts: s.integer(),
+    totalTransactions: s.integer(),
+    totalGasUsed: s.bigint(),
+    avgTxPerContract: s.number(),
+  })
+);
+
+// ==============================================
+// 💰 MON
+// ==============================================
+
+export const topMonSenders = s.array(
+  s.object({
+    walletAddress: optionalHex,
+    totalSent: s.bigint(),
+    totalReceived: s.bigint(),
+    netFlow: s.bigint(),
+    sentCount: s.integer(),
+    receivedCount: s.integer(),
+    avgSentPerTx: s.bigint(),
+  })
+);
+
+export const topMonReceivers = s.array(
+  s.object({
+    walletAddress: optionalHex,
+    totalReceived: s.bigint(),
+    totalSent: s.bigint(),
+    netFlow: s.bigint(),
+    receivedCount: s.integer(),
+    sentCount: s.integer(),
+    avgReceivedPerTx: s.bigint(),
+  })
+);
+
+export const largestMonTransfers = s.array(
+  s.object({
+    transactionHash: optionalHex,
+    fromAddress: optionalHex,
+    toAddress: optionalHex,
+    amount: optionalBigint,
+    amountInMon: s.number(),
+    gasUsed: optionalBigint,
+    blockNumber: optionalBigint,
+    blockTimestamp: optionalBigint,
+  })
+);
+
+export const mostActiveMonTraders = s.array(
+  s.object({
+    walletAddress: optionalHex,
+    totalVolume: s.bigint(),
+    totalTransfers: s.integer(),
+    avgTransferSize: s.bigint(),
+    sentReceiveRatio: s.number(),
+    totalSent: s.bigint(),
+    totalReceived: s.bigint(),
+  })
+);
+
+// ==============================================
+// 🪙 TOKENS
+// ==============================================
+
+export const topTokensByVolume = s.array(
+  s.object({
+    tokenAddress: optionalHex,
+    name: optionalString,
+    symbol: optionalString,
+    decimals: optionalInteger,
+    totalTransfers: s.integer(),
+    totalVolume: s.bigint(),
+    uniqueSenders: s.integer(),
+    uniqueReceivers: s.integer(),
+  })
+);
+
+export const tokenHolders = s.array(
+  s.object({
+    walletAddress: optionalHex,
+    totalTransfers: s.integer(),
+    totalSent: s.bigint(),
+    totalReceived: s.bigint(),
+    netFlow: s.bigint(),
+    sentCount: s.integer(),
+    receivedCount: s.integer(),
+  })
+);
+
+// ==============================================
+// 📊 NETWORK
+// ==============================================
+
+export const networkOverview = s.object({
+  blocks: s.nullable(
+    s.object({
+      totalBlocks: s.integer(),
+      totalTransactions: s.integer(),
+      totalGasUsed: s.bigint(),
+      avgGasPerBlock: s.bigint(),
+      avgTxPerBlock: s.number(),
+      avgGasUtilization: s.number(),
+    })
+  ),
+  contracts: s.nullable(s.object({ uniqueContracts: s.integer(), totalContractTxs: s.integer() })),
+  wallets: s.nullable(s.object({ uniqueWallets: s.integer(), totalWalletTxs: s.integer() })),
+  mon: s.nullable(
+    s.object({
+      totalMonTransfers: s.integer(),
+      totalMonVolume: s.bigint(),
+      uniqueMonSenders: s.integer(),
+      uniqueMonReceivers: s.integer(),
+    })
+  ),
+});
+
+export const transactionTypeBreakdown = s.array(
+  s.object({
+    transferCount: s.integer(),
+    swapCount: s.integer(),
+    mintCount: s.integer(),
+    burnCount: s.integer(),
+    stakeCount: s.integer(),
+    otherCount: s.integer(),
+    totalTransactions: s.integer(),
+    types: s.record(s.integer()),
+  })
+);
+
+// ==============================================
+// 📈 TIME SERIES
+// ==============================================
+
+// One entry per bucket; the value fields depend on the metric
+export const timeSeries = s.oneOf(
+  s.array(s.object({ bucket: s.integer(), transactions: s.integer(), blocks: s.integer() })),
+  s.array(s.object({ bucket: s.integer(), gasUsed: s.number(), blocks: s.integer() })),
+  s.array(s.object({ bucket: s.integer(), gasUtilization: s.number(), blocks: s.integer() })),
+  s.array(s.object({ bucket: s.integer(), uniqueWallets: s.integer() })),
+  s.array(s.object({ bucket: s.integer(), volume: s.string("Wei, as a decimal string"), transfers: s.integer() })),
+  s.array(
+    s.object({
+      bucket: s.integer(),
+      transferCount: s.integer(),
+      swapCount: s.integer(),
+      mintCount: s.integer(),
+      burnCount: s.integer(),
+      stakeCount: s.integer(),
+      otherCount: s.integer(),
+      types: s.record(s.integer()),
+    })
+  )
+);
+
+// ==============================================
+// 🔍 LOOKUPS
+// ==============================================
+
+export const contractDetails = s.object({
+  usage: s.nullable(
+    s.object({
+      totalTransactions: s.integer(),
+      totalGasUsed: s.bigint(),
+      avgGasPerTx: s.bigint(),
+      primaryType: s.string(),
+    })
+  ),
+  interactions: s.nullable(s.object({ uniqueWallets: s.integer(), totalInteractions: s.integer() })),
+});
+
+export const walletDetails = s.object({
+  gas: s.nullable(
+    s.object({ totalGasUsed: s.bigint(), totalTransactions: s.integer(), uniqueContracts: s.integer() })
+  ),
+  mon: s.nullable(
+    s.object({ totalSent: s.bigint(), totalReceived: s.bigint(), totalTransfers: s.integer() })
+  ),
+});
+
+// ==============================================
+// 💳 TRANSACTIONS
+// ==============================================
+
+// Fields every transaction list returns (see transactionListFields)
+const transactionListItem = {
+  blockNumber: optionalBigint,
+  transactionIndex: optionalInteger,
+  chainId: s.integer(),
+  hash: s.hex(),
+  blockTimestamp: optionalBigint,
+  fromAddress: optionalHex,
+  value: optionalBigint,
+  valueInMon: s.number(),
+  gasUsed: optionalBigint,
+  transactionType: optionalString,
+  methodSignature: optionalString,
+};
+
+export const recentTransactions = s.array(
+  s.object({
+    ...transactionListItem,
+    toAddress: optionalHex,
+    gasPrice: optionalBigint,
+    success: s.nullable(s.boolean()),
+    contractAddress: optionalHex,
+  })
+);
+
+export const walletTransactions = s.array(
+  s.object({
+    ...transactionListItem,
+    toAddress: optionalHex,
+    gasPrice: optionalBigint,
+    success: s.nullable(s.boolean()),
+    contractAddress: optionalHex,
+    direction: s.string("sent, received or unknown, relative to the wallet"),
+  })
+);
+
+export const transactionsByType = s.array(
+  s.object({
+    ...transactionListItem,
+    toAddress: optionalHex,
+    success: s.nullable(s.boolean()),
+    contractAddress: optionalHex,
+  })
+);
+
+export const contractTransactions = s.array(
+  s.object({ ...transactionListItem, success: s.nullable(s.boolean()) })
+);
+
+export const blockTransactions = s.array(
+  s.object({
+    chainId: s.integer(),
+    hash: s.hex(),
+    transactionIndex: optionalInteger,
+    fromAddress: optionalHex,
+    toAddress: optionalHex,
+    value: optionalBigint,
+    valueInMon: s.number(),
+    gasUsed: optionalBigint,
+    gasPrice: optionalBigint,
+    transactionType: optionalString,
+    methodSignature: optionalString,
+    success: s.nullable(s.boolean()),
+    contractAddress: optionalHex,
+  })
+);
+
+export const transaction = s.object({
+  chainId: s.integer(),
+  hash: s.hex(),
+  blockNumber: optionalBigint,
+  blockTimestamp: optionalBigint,
+  transactionIndex: optionalInteger,
+  fromAddress: optionalHex,
+  toAddress: optionalHex,
+  value: optionalBigint,
+  valueInMon: s.number(),
+  gasUsed: optionalBigint,
+  gasPrice: optionalBigint,
+  gasLimit: optionalBigint,
+  transactionType: optionalString,
+  methodSignature: optionalString,
+  inputData: optionalString,
+  success: s.nullable(s.boolean()),
+  nonce: optionalBigint,
+  contractAddress: optionalHex,
+});
+
+// ==============================================
+// 🏷️ CLASSIFIER
+// ==============================================
+
+export const classifierRules = s.object({
+  categories: s.array(s.string()),
+  rules: s.array(
+    s.object({
+      category: s.string(),
+      selector: s.optional(s.hex()),
+      contract: s.optional(s.hex()),
+      description: s.optional(s.string()),
+    })
+  ),
+});
+
+// ==============================================
+// 🚨 ALERTS
+// ==============================================
+
+export const alerts = s.array(
+  s.object({
+    id: s.string(),
+    chainId: s.integer(),
+    ruleId: optionalString,
+    kind: optionalString,
+    severity: optionalString,
+    blockNumber: optionalBigint,
+    blockTimestamp: optionalBigint,
+    address: optionalHex,
+    transactionHash: optionalHex,
+    message: optionalString,
+    details: s.nullable(s.record(s.oneOf(s.string(), s.number()))),
+  })
+);
+
+export const alertRules = s.array(
+  s.object({
+    id: s.string(),
+    kind: s.string(),
+    severity: s.string(),
+    description: s.optional(s.string()),
+    enabled: s.optional(s.boolean()),
+    minAmount: s.optional(s.string("MON, for largeMonTransfer")),
+    ratio: s.optional(s.number("For contractSurge")),
+    minTransactions: s.optional(s.integer("For contractSurge")),
+    minUtilization: s.optional(s.number("0-1, for gasUtilization")),
+    blocks: s.optional(s.integer("For gasUtilization")),
+    minRecipients: s.optional(s.integer("For walletFanOut")),
+  })
+);
@@ -0,0 +1,119 @@
+import type { Context, Hono } from "hono";
+import type { ChainDefinition } from "../../chains";
+import { apiRequestDuration } from "../metrics";
+import { cachedResponse } from "./cache";
+import type { Infer, Schema } from "./schema";
+import { ApiError, parseParams, type ParamSchema, type ParsedParams } from "./validation";
+
+// Declarative routes for the analytics API. Every route goes through the same
+// parameter validation, `{ success, data, meta }` envelope and error handling,
+// and the route table doubles as the source for the generated documentation,
+// the OpenAPI document and the typed client.
+
+export type RouteMeta = { description: string } & Record<string, unknown>;
+
+// What a handler may return for a value whose JSON form is T: bigints are
+// serialized as decimal strings, so they can stand in for any string
+export type Unwire<T> = T extends string
+  ? T | bigint
+  : T extends readonly (infer U)[]
+    ? Unwire<U>[]
+    : T extends object
+      ? { [K in keyof T]: Unwire<T[K]> }
+      : T;
+
+export interface RouteDefinition<
+  P extends string = string,
+  S extends ParamSchema = ParamSchema,
+  R extends Schema<any> = Schema<any>,
+  M extends RouteMeta = RouteMeta,
+> {
+  path: P;
+  group: string;
+  summary: string;
+  params: S;
+  response: R; // Schema of `data`; the handler's data is type-checked against it
+  example?: string;
+  cacheTtl?: number; // Seconds a response may be reused while no new block is indexed; unset = not cached
+  handler: (
+    params: ParsedParams<S>,
+    c: Context
+  ) => Promise<{ data: Unwire<Infer<R>>; meta: M }> | { data: Unwire<Infer<R>>; meta: M };
+}
+
+// Identity function that keeps a route's literal types for the typed client
+export function defineRoute<P extends string, S extends ParamSchema, R extends Schema<any>, M extends RouteMeta>(
+  route: RouteDefinition<P, S, R, M>
+): RouteDefinition<P, S, R, M> {
+  return route;
+}
+
+// Route table keyed by path, for the typed client
+export type RouteMap<Routes extends RouteDefinition<any, any, any, any>> = {
+  [Route in Routes as Route["path"]]: Route;
+};
+
+// JSON.stringify that writes bigints (block numbers, wei amounts) as decimal strings
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(toJson(body), {
+    status,
+    headers: { "Content-Type": "application/json; charset=UTF-8" },
+  });
+}
+
+export function errorResponse(error: unknown): Response {
+  if (error instanceof ApiError) {
+    return jsonResponse(
+      { success: false, error: error.message, code: error.code, param: error.param },
+      error.status
+    );
+  }
+  return jsonResponse(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+      code: "INTERNAL_ERROR",
+    },
+    500
+  );
+}
+
+// Responses are not validated at runtime: `response` only constrains the
+// handler's type, through defineRoute()
+async function handleRoute(route: RouteDefinition<any, any, any, any>, c: Context): Promise<Response> {
+  try {
+    const params = parseParams(route.params, {
+      query: (name) => c.req.query(name),
+      path: (name) => c.req.param(name),
+    });
+    const envelope = async () => {
+      const { data, meta } = await route.handler(params, c);
+      return { success: true, data, meta: { ...meta, timestamp: new Date().toISOString() } };
+    };
+
+    if (route.cacheTtl !== undefined) {
+      // Routes with a chain parameter only depend on that chain's head
+      const chainId = (params as { chain?: ChainDefinition }).chain?.id;
+      return await cachedResponse(c, route.cacheTtl, chainId, async () => toJson(await envelope()));
+    }
+    return jsonResponse(await envelope());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export function registerRoute(app: Hono, route: RouteDefinition<any, any, any, any>) {
+  app.get(route.path, async (c) => {
+    const started = performance.now();
+    const response = await handleRoute(route, c);
+    apiRequestDuration.observe(
+      { route: route.path, status: String(response.status), cache: response.headers.get("X-Cache") ?? "none" },
+      (performance.now() - started) / 1000
+    );
+    return response;
+  });
+}
@@ -0,0 +1,91 @@
+// Response schemas for the analytics API.
+//
+// A Schema<T> is an OpenAPI 3.0 schema object that also carries T, the type of
+// the value as it arrives in the JSON response. The OpenAPI document is built
+// from the JSON side and the typed client from the T side, so both describe
+// the same shape.
+
+export interface JsonSchema {
+  type?: "string" | "integer" | "number" | "boolean" | "array" | "object";
+  format?: string;
+  pattern?: string;
+  description?: string;
+  nullable?: boolean;
+  enum?: readonly (string | number)[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  oneOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  $ref?: string;
+}
+
+export interface Schema<T> {
+  json: JsonSchema;
+  optional?: boolean; // Property may be absent when used in s.object()
+  // Type-level only; never set at runtime
+  readonly __type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Object type for s.object(): properties built with s.optional() become optional keys
+type ObjectOf<P extends Record<string, Schema<any>>> = Simplify<
+  { [K in keyof P as P[K] extends Schema<infer T> ? (undefined extends T ? never : K) : never]: Infer<P[K]> } & {
+    [K in keyof P as P[K] extends Schema<infer T> ? (undefined extends T ? K : never) : never]?: Infer<P[K]>;
+  }
+>;
+
+function schema<T>(json: JsonSchema): Schema<T> {
+  return { json };
+}
+
+export const s = {
+  string: (description?: string) => schema<string>({ type: "string", description }),
+  integer: (description?: string) => schema<number>({ type: "integer", description }),
+  number: (description?: string) => schema<number>({ type: "number", description }),
+  boolean: (description?: string) => schema<boolean>({ type: "boolean", description }),
+  // 0x-prefixed hex: addresses, hashes, selectors
+  hex: (description?: string) => schema<`0x${string}`>({ type: "string", pattern: "^0x[a-fA-F0-9]*$", description }),
+  // Bigints are serialized as decimal strings
+  bigint: (description?: string) =>
+    schema<string>({ type: "string", format: "bigint", pattern: "^-?\\d+$", description }),
+  unknown: (description?: string) => schema<unknown>({ description }),
+
+  literal: <const V extends string>(value: V) => schema<V>({ type: "string", enum: [value] }),
+
+  nullable: <T>(inner: Schema<T>) => schema<T | null>({ ...inner.json, nullable: true }),
+
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> => ({ json: inner.json, optional: true }),
+
+  array: <T>(items: Schema<T>) => schema<T[]>({ type: "array", items: items.json }),
+
+  record: <T>(values: Schema<T>) =>
+    schema<Record<string, T>>({ type: "object", additionalProperties: values.json }),
+
+  object: <P extends Record<string, Schema<any>>>(properties: P) =>
+    schema<ObjectOf<P>>({
+      type: "object",
+      properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, value.json])),
+      required: Object.entries(properties)
+        .filter(([, value]) => !value.optional)
+        .map(([key]) => key),
+    }),
+
+  oneOf: <S extends Schema<any>[]>(...options: S) =>
+    schema<Infer<S[number]>>({ oneOf: options.map((option) => option.json) }),
+};
+
+// How a server-side value looks once serialized: bigints become decimal strings
+export type Wire<T> = T extends bigint
+  ? string
+  : T extends readonly (infer U)[]
+    ? Wire<U>[]
+    : T extends object
+      ? { [K in keyof T]: Wire<T[K]> }
+      : T;
@@ -0,0 +1,16 @@
+import { db } from "ponder:api";
+import { sql } from "ponder";
+import { chains } from "../../chains";
+import { getIndexerStatus } from "../status";
+import { getWebSocketHealth } from "../websocket";
+import { jsonResponse } from "./router";
+
+// GET /status/app: indexed head, chain head, lag, TPS and WebSocket clients per
+// chain. Ponder keeps /status for its own per-chain checkpoints.
+export async function appStatus(): Promise<Response> {
+  const status = await getIndexerStatus(
+    async (text) => (await db.execute(sql.raw(text))).rows as Record<string, unknown>[],
+    { chains, websocketClients: getWebSocketHealth().clients }
+  );
+  return jsonResponse({ success: true, data: status });
+}
@@ -0,0 +1,350 @@
+import * as queries from "../queries-examples";
+import { chains, findChain, type ChainDefinition } from "../../chains";
+
+// Request parameter schemas for the analytics API.
+//
+// Each parameter carries both its parser and its documentation, so the route
+// table in analytics.ts is the single source for validation and for the
+// generated docs. Parsers throw ApiError, which the router turns into a 400.
+
+export const ERROR_CODES = [
+  "INVALID_PARAMETER",
+  "MISSING_PARAMETER",
+  "UNKNOWN_CHAIN",
+  "INVALID_RANGE",
+  "NOT_FOUND",
+  "UNAUTHORIZED",
+  "FORBIDDEN",
+  "RATE_LIMITED",
+  "UNAVAILABLE",
+  "INTERNAL_ERROR",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: 400 | 401 | 403 | 404 | 429 | 500 | 503,
+    readonly code: ErrorCode,
+    message: string,
+    readonly param?: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export function invalidParam(param: string, message: string): ApiError {
+  return new ApiError(400, "INVALID_PARAMETER", message, param);
+}
+
+export interface ParamDoc {
+  in: "query" | "path";
+  type: "string" | "integer" | "boolean";
+  description: string;
+  required?: boolean;
+  default?: string | number | boolean;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  enum?: readonly string[];
+}
+
+export interface Param<T> {
+  kind: "param";
+  doc: ParamDoc;
+  parse(raw: string | undefined, name: string): T;
+}
+
+// Several raw parameters that resolve to one value (e.g. a query window)
+export interface ParamGroup<T, M extends Record<string, Param<any>> = Record<string, Param<any>>> {
+  kind: "group";
+  members: M;
+  combine(values: ParsedParams<M>): T;
+}
+
+export type ParamSchema = Record<string, Param<any> | ParamGroup<any, Record<string, Param<any>>>>;
+
+export type ParsedParams<S extends ParamSchema> = {
+  [K in keyof S]: S[K] extends Param<infer T> ? T : S[K] extends ParamGroup<infer T, any> ? T : never;
+};
+
+// Names of the raw request parameters a schema reads, with groups expanded
+export type RawParamNames<S extends ParamSchema> = {
+  [K in keyof S]: S[K] extends ParamGroup<any, infer M> ? keyof M : K;
+}[keyof S] & string;
+
+export function group<M extends Record<string, Param<any>>, T>(
+  members: M,
+  combine: (values: ParsedParams<M>) => T
+): ParamGroup<T, M> {
+  return { kind: "group", members, combine };
+}
+
+function define<T>(doc: ParamDoc, parse: (raw: string, name: string) => T, fallback?: T): Param<T> {
+  return {
+    kind: "param",
+    doc,
+    parse(raw, name) {
+      if (raw === undefined || raw === "") {
+        if (doc.required) {
+          throw new ApiError(400, "MISSING_PARAMETER", `${name} is required`, name);
+        }
+        return fallback as T;
+      }
+      return parse(raw, name);
+    },
+  };
+}
+
+function matching(pattern: RegExp, doc: ParamDoc, message: string) {
+  return define<string>({ ...doc, pattern: pattern.source }, (raw, name) => {
+    if (!pattern.test(raw)) throw invalidParam(name, `${name}: ${message}`);
+    return raw;
+  });
+}
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const HASH_PATTERN = /^0x[a-fA-F0-9]{64}$/;
+const SELECTOR_PATTERN = /^0x[a-fA-F0-9]{8}$/;
+const UINT_PATTERN = /^\d+$/;
+
+export const MAX_LEADERBOARD_LIMIT = 100;
+
+// ==============================================
+// PARAMETER BUILDERS
+// ==============================================
+
+export function addressParam(description: string): Param<string> {
+  return matching(
+    ADDRESS_PATTERN,
+    { in: "path", type: "string", required: true, description },
+    "expected a 0x-prefixed 20-byte address"
+  );
+}
+
+export function hashParam(description: string): Param<string> {
+  return matching(
+    HASH_PATTERN,
+    { in: "path", type: "string", required: true, description },
+    "expected a 0x-prefixed 32-byte hash"
+  );
+}
+
+export function addressQueryParam(description: string): Param<string | undefined> {
+  return matching(
+    ADDRESS_PATTERN,
+    { in: "query", type: "string", description },
+    "expected a 0x-prefixed 20-byte address"
+  );
+}
+
+export function selectorParam(description: string): Param<string | undefined> {
+  return matching(
+    SELECTOR_PATTERN,
+    { in: "query", type: "string", description },
+    "expected a 4-byte selector such as 0xa9059cbb"
+  );
+}
+
+export function blockNumberParam(description: string): Param<bigint> {
+  return define<bigint>(
+    { in: "path", type: "integer", required: true, minimum: 0, description },
+    (raw, name) => {
+      if (!UINT_PATTERN.test(raw)) throw invalidParam(name, `${name} must be a non-negative integer`);
+      return BigInt(raw);
+    }
+  );
+}
+
+// Optional non-negative integer too large for a JS number (timestamps, block numbers, wei)
+export function uintParam(description: string): Param<bigint | undefined> {
+  return define<bigint | undefined>(
+    { in: "query", type: "integer", minimum: 0, description },
+    (raw, name) => {
+      if (!UINT_PATTERN.test(raw)) throw invalidParam(name, `${name} must be a non-negative integer`);
+      return BigInt(raw);
+    }
+  );
+}
+
+export function integerParam(
+  description: string,
+  options: { default: number; minimum: number; maximum: number }
+): Param<number> {
+  return define<number>(
+    { in: "query", type: "integer", description, ...options },
+    (raw, name) => {
+      const value = Number(raw);
+      if (!UINT_PATTERN.test(raw) || value < options.minimum || value > options.maximum) {
+        throw invalidParam(name, `${name} must be an integer between ${options.minimum} and ${options.maximum}`);
+      }
+      return value;
+    },
+    options.default
+  );
+}
+
+export function limitParam(defaultLimit: number, maximum = MAX_LEADERBOARD_LIMIT): Param<number> {
+  return integerParam("Number of results to return", { default: defaultLimit, minimum: 1, maximum });
+}
+
+export function booleanParam(description: string): Param<boolean | undefined> {
+  return define<boolean | undefined>({ in: "query", type: "boolean", description }, (raw, name) => {
+    if (raw !== "true" && raw !== "false") throw invalidParam(name, `${name} must be true or false`);
+    return raw === "true";
+  });
+}
+
+// Path enums are always present, so only optional query enums can be undefined
+export function enumParam<T extends string>(
+  values: readonly T[],
+  doc: { description: string; in: "path" } | { description: string; in?: "query"; default: NoInfer<T> }
+): Param<T>;
+export function enumParam<T extends string>(
+  values: readonly T[],
+  doc: { description: string; in?: "query"; default?: undefined }
+): Param<T | undefined>;
+export function enumParam<T extends string>(
+  values: readonly T[],
+  doc: { description: string; in?: "query" | "path"; default?: T }
+): Param<T | undefined> {
+  const location = doc.in ?? "query";
+  return define<T | undefined>(
+    {
+      in: location,
+      type: "string",
+      description: doc.description,
+      required: location === "path",
+      default: doc.default,
+      enum: values,
+    },
+    (raw, name) => {
+      if (!values.includes(raw as T)) {
+        throw invalidParam(name, `Invalid ${name}. Valid values: ${values.join(", ")}`);
+      }
+      return raw as T;
+    },
+    doc.default
+  );
+}
+
+// ==============================================
+// SHARED PARAMETERS
+// ==============================================
+
+// Chain name or id; undefined means all configured chains
+export const chainParam: Param<ChainDefinition | undefined> = define<ChainDefinition | undefined>(
+  {
+    in: "query",
+    type: "string",
+    description: `Chain name or id to query (default: all). Configured: ${chains.map((ch) => ch.name).join(", ")}`,
+  },
+  (raw, name) => {
+    const chain = findChain(raw);
+    if (!chain) {
+      throw new ApiError(
+        400,
+        "UNKNOWN_CHAIN",
+        `Unknown chain. Configured chains: ${chains.map((ch) => ch.name).join(", ")}`,
+        name
+      );
+    }
+    return chain;
+  }
+);
+
+// Leaderboard window from `window` (1h, 24h, 7d, 30d, all) or from explicit
+// `from`/`to` unix timestamps and/or `fromBlock`/`toBlock` block numbers.
+// Defaults to 24h.
+export const windowParams = group(
+  {
+    window: enumParam(Object.keys(queries.WINDOW_PRESETS) as queries.WindowPreset[], {
+      description: "Leaderboard window (default: 24h)",
+    }),
+    from: uintParam("Window start, unix seconds (instead of window)"),
+    to: uintParam("Window end, unix seconds (instead of window)"),
+    fromBlock: uintParam("Window start block, inclusive (instead of window)"),
+    toBlock: uintParam("Window end block, inclusive (instead of window)"),
+  },
+  ({ window: preset, from, to, fromBlock, toBlock }): queries.QueryWindow => {
+    const explicit = from !== undefined || to !== undefined || fromBlock !== undefined || toBlock !== undefined;
+
+    if (!explicit) {
+      return queries.presetWindow(preset ?? "24h");
+    }
+    if (preset) {
+      throw invalidParam("window", "Use either window or from/to/fromBlock/toBlock, not both");
+    }
+    if (from !== undefined && to !== undefined && from > to) {
+      throw new ApiError(400, "INVALID_RANGE", "from must not be after to", "from");
+    }
+    if (fromBlock !== undefined && toBlock !== undefined && fromBlock > toBlock) {
+      throw new ApiError(400, "INVALID_RANGE", "fromBlock must not be after toBlock", "fromBlock");
+    }
+    return { label: "custom", from, to, fromBlock, toBlock };
+  }
+);
+
+// Paging and filters shared by the transaction list routes
+export const transactionListParams = group(
+  {
+    limit: limitParam(50, queries.MAX_TRANSACTION_PAGE_SIZE),
+    cursor: define<queries.TransactionCursor | undefined>(
+      { in: "query", type: "string", description: "Opaque cursor from meta.nextCursor / meta.prevCursor" },
+      (raw, name) => {
+        const cursor = queries.decodeTransactionCursor(raw);
+        if (!cursor) throw invalidParam(name, "Invalid cursor");
+        return cursor;
+      }
+    ),
+    minValue: uintParam("Minimum MON value in wei"),
+    maxValue: uintParam("Maximum MON value in wei"),
+    success: booleanParam("Filter by success status"),
+    method: selectorParam("Filter by 4-byte method selector"),
+  },
+  ({ limit, cursor, minValue, maxValue, success, method }): queries.TransactionListOptions => {
+    if (minValue !== undefined && maxValue !== undefined && minValue > maxValue) {
+      throw new ApiError(400, "INVALID_RANGE", "minValue must not be greater than maxValue", "minValue");
+    }
+    return { limit, cursor, minValue, maxValue, success, methodSignature: method };
+  }
+);
+
+// ==============================================
+// PARSING
+// ==============================================
+
+export interface RawParams {
+  query(name: string): string | undefined;
+  path(name: string): string | undefined;
+}
+
+function read(param: Param<unknown>, name: string, raw: RawParams) {
+  return param.parse(param.doc.in === "path" ? raw.path(name) : raw.query(name), name);
+}
+
+export function parseParams<S extends ParamSchema>(schema: S, raw: RawParams): ParsedParams<S> {
+  const parsed: Record<string, unknown> = {};
+  for (const [name, entry] of Object.entries(schema)) {
+    if (entry.kind === "param") {
+      parsed[name] = read(entry, name, raw);
+    } else {
+      const values: Record<string, unknown> = {};
+      for (const [member, param] of Object.entries(entry.members)) {
+        values[member] = read(param, member, raw);
+      }
+      parsed[name] = entry.combine(values);
+    }
+  }
+  return parsed as ParsedParams<S>;
+}
+
+// Flatten a schema into its raw request parameters, for docs
+export function listParams(schema: ParamSchema): [string, ParamDoc][] {
+  return Object.entries(schema).flatMap(([name, entry]): [string, ParamDoc][] =>
+    entry.kind === "param"
+      ? [[name, entry.doc]]
+      : Object.entries(entry.members).map(([member, param]): [string, ParamDoc] => [member, param.doc])
+  );
+}
@@ -0,0 +1,190 @@
+import { Hono, type Context } from "hono";
+import { findChain } from "../../chains";
+import { isApiKeyAuthEnabled } from "../api-keys";
+import { parseSubscriptionFilter } from "../subscription-filters";
+import {
+  WEBHOOK_EVENT_TYPES,
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  isWebhooksEnabled,
+  listDeadLetters,
+  listDeliveries,
+  listWebhooks,
+  sendTestEvent,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookInput,
+} from "../webhooks";
+import { errorResponse, jsonResponse } from "./router";
+import { ApiError, invalidParam } from "./validation";
+
+// Webhook subscriptions: register a URL, read its delivery log and dead
+// letters, send it a test event. Subscriptions belong to the API key that
+// created them; admin keys see every subscription. Without configured API keys
+// callers cannot be told apart, so the routes are refused.
+
+const webhooks = new Hono();
+
+const DELIVERY_STATUSES: readonly WebhookDelivery["status"][] = ["delivered", "retrying", "failed"];
+const MAX_PAGE = 100;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+function ownerOf(c: Context): string | undefined {
+  return c.get("apiKey")?.name;
+}
+
+function isAdmin(c: Context): boolean {
+  return c.get("apiKey")?.admin === true;
+}
+
+// The subscription, if it exists and the caller may see it
+async function findOwned(c: Context): Promise<Webhook> {
+  const webhook = await getWebhook(c.req.param("id")!);
+  if (!webhook || (!isAdmin(c) && webhook.owner !== ownerOf(c))) {
+    throw new ApiError(404, "NOT_FOUND", "Webhook not found");
+  }
+  return webhook;
+}
+
+function parseWebhookInput(body: unknown): WebhookInput {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ApiError(400, "INVALID_PARAMETER", "Body must be a JSON object");
+  }
+  const input = body as Record<string, unknown>;
+
+  if (typeof input.url !== "string") throw new ApiError(400, "MISSING_PARAMETER", "url is required", "url");
+  let url: URL;
+  try {
+    url = new URL(input.url);
+  } catch {
+    throw invalidParam("url", "url must be an absolute URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw invalidParam("url", "url must use http or https");
+  }
+
+  if (!Array.isArray(input.events) || input.events.length === 0) {
+    throw new ApiError(400, "MISSING_PARAMETER", "events must list at least one event type", "events");
+  }
+  for (const type of input.events) {
+    if (!WEBHOOK_EVENT_TYPES.includes(type)) {
+      throw invalidParam("events", `events must be among: ${WEBHOOK_EVENT_TYPES.join(", ")}`);
+    }
+  }
+
+  const chains: number[] = [];
+  if (input.chains !== undefined) {
+    if (!Array.isArray(input.chains)) throw invalidParam("chains", "chains must be a list of chain names or ids");
+    for (const nameOrId of input.chains) {
+      const chain = findChain(String(nameOrId));
+      if (!chain) throw new ApiError(400, "UNKNOWN_CHAIN", `Unknown chain: ${nameOrId}`, "chains");
+      chains.push(chain.id);
+    }
+  }
+
+  const filters = input.filters ?? {};
+  try {
+    parseSubscriptionFilter(filters);
+  } catch (error) {
+    throw invalidParam("filters", (error as Error).message);
+  }
+
+  if (
+    input.description !== undefined &&
+    (typeof input.description !== "string" || input.description.length > MAX_DESCRIPTION_LENGTH)
+  ) {
+    throw invalidParam("description", `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+
+  return {
+    url: url.toString(),
+    events: [...new Set(input.events)],
+    chains: [...new Set(chains)],
+    filters: filters as Record<string, unknown>,
+    description: input.description as string | undefined,
+  };
+}
+
+function pageParams(c: Context): { limit: number; before?: string } {
+  const limit = Number(c.req.query("limit") ?? 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE) {
+    throw invalidParam("limit", `limit must be an integer between 1 and ${MAX_PAGE}`);
+  }
+  const before = c.req.query("before");
+  if (before !== undefined && !/^\d+$/.test(before)) {
+    throw invalidParam("before", "before must be an id from a previous page");
+  }
+  return { limit, before };
+}
+
+// Every route needs an API key to own subscriptions, and the webhook tables,
+// which need DATABASE_URL
+webhooks.use("*", async (_c, next) => {
+  if (!isApiKeyAuthEnabled()) {
+    return errorResponse(new ApiError(403, "FORBIDDEN", "Webhooks need API keys to be configured"));
+  }
+  if (!isWebhooksEnabled()) {
+    return errorResponse(new ApiError(503, "UNAVAILABLE", "Webhooks need DATABASE_URL to be set"));
+  }
+  await next();
+});
+
+webhooks.onError((error) => errorResponse(error));
+
+// POST /webhooks: register a subscription; the signing secret is only returned here
+webhooks.post("/", async (c) => {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    throw new ApiError(400, "INVALID_PARAMETER", "Body must be valid JSON");
+  }
+  const webhook = await createWebhook(parseWebhookInput(body), ownerOf(c));
+  return jsonResponse({ success: true, data: webhook }, 201);
+});
+
+webhooks.get("/", async (c) => {
+  const data = await listWebhooks(isAdmin(c) ? undefined : ownerOf(c));
+  return jsonResponse({ success: true, data, meta: { count: data.length } });
+});
+
+webhooks.get("/:id", async (c) => jsonResponse({ success: true, data: await findOwned(c) }));
+
+webhooks.delete("/:id", async (c) => {
+  const webhook = await findOwned(c);
+  await deleteWebhook(webhook.id);
+  return jsonResponse({ success: true, data: { id: webhook.id, deleted: true } });
+});
+
+// POST /webhooks/:id/test: send a `ping` event; its attempts show up in the delivery log
+webhooks.post("/:id/test", async (c) => {
+  const webhook = await findOwned(c);
+  const eventId = sendTestEvent(webhook.id);
+  if (!eventId) {
+    throw new ApiError(503, "UNAVAILABLE", "Webhook delivery is still starting");
+  }
+  return jsonResponse({ success: true, data: { id: webhook.id, eventId } }, 202);
+});
+
+// GET /webhooks/:id/deliveries?status=failed&limit=50&before=<id>: one row per attempt, newest first
+webhooks.get("/:id/deliveries", async (c) => {
+  const webhook = await findOwned(c);
+  const status = c.req.query("status");
+  if (status !== undefined && !DELIVERY_STATUSES.includes(status as WebhookDelivery["status"])) {
+    throw invalidParam("status", `status must be one of: ${DELIVERY_STATUSES.join(", ")}`);
+  }
+  const page = pageParams(c);
+  const data = await listDeliveries(webhook.id, { ...page, status: status as WebhookDelivery["status"] | undefined });
+  return jsonResponse({ success: true, data, meta: { count: data.length, limit: page.limit } });
+});
+
+// GET /webhooks/:id/dead-letters: events that ran out of attempts, with their payloads
+webhooks.get("/:id/dead-letters", async (c) => {
+  const webhook = await findOwned(c);
+  const page = pageParams(c);
+  const data = await listDeadLetters(webhook.id, page);
+  return jsonResponse({ success: true, data, meta: { count: data.length, limit: page.limit } });
+});
+
+export default webhooks;
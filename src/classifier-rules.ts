@@ -0,0 +1,117 @@
+// Transaction classification registry.
+//
+// Each rule maps a 4-byte method selector, a target contract, or both to a
+// category. Rules that name a contract win over selector-only rules, so a
+// specific router or bridge can be classified without affecting every other
+// contract that happens to share a selector. Categories are free-form strings:
+// add a rule with a new category here (or in the JSON file named by
+// CLASSIFIER_RULES_FILE) and it becomes a valid transaction type everywhere.
+
+export interface ClassifierRule {
+  category: string;
+  selector?: `0x${string}`; // 0x + 8 hex chars
+  contract?: `0x${string}`; // Restrict the rule to a single target contract
+  description?: string;
+}
+
+// Built-in categories with dedicated counters on the `blocks` table
+export const CORE_CATEGORIES = ["transfer", "swap", "mint", "burn", "stake", "other"] as const;
+
+export const defaultRules: ClassifierRule[] = [
+  // ERC20 Transfer
+  { category: "transfer", selector: "0xa9059cbb", description: "transfer(address,uint256)" },
+  { category: "transfer", selector: "0x23b872dd", description: "transferFrom(address,address,uint256)" },
+
+  // Approvals
+  { category: "approve", selector: "0x095ea7b3", description: "approve(address,uint256)" },
+  { category: "approve", selector: "0xa22cb465", description: "setApprovalForAll(address,bool)" },
+
+  // DEX Swaps - Uniswap V2 style routers and pairs
+  { category: "swap", selector: "0x7ff36ab5", description: "swapExactETHForTokens" },
+  { category: "swap", selector: "0x18cbafe5", description: "swapExactTokensForETH" },
+  { category: "swap", selector: "0x38ed1739", description: "swapExactTokensForTokens" },
+  { category: "swap", selector: "0x8803dbee", description: "swapTokensForExactTokens" },
+  { category: "swap", selector: "0xfb3bdb41", description: "swapETHForExactTokens" },
+  { category: "swap", selector: "0x4a25d94a", description: "swapTokensForExactETH" },
+  { category: "swap", selector: "0x5c11d795", description: "swapExactTokensForTokensSupportingFeeOnTransferTokens" },
+  { category: "swap", selector: "0x791ac947", description: "swapExactTokensForETHSupportingFeeOnTransferTokens" },
+  { category: "swap", selector: "0xb6f9de95", description: "swapExactETHForTokensSupportingFeeOnTransferTokens" },
+  { category: "swap", selector: "0x022c0d9f", description: "swap(uint256,uint256,address,bytes)" },
+
+  // DEX Swaps - Uniswap V3 SwapRouter and SwapRouter02
+  { category: "swap", selector: "0x414bf389", description: "exactInputSingle (SwapRouter)" },
+  { category: "swap", selector: "0x04e45aaf", description: "exactInputSingle (SwapRouter02)" },
+  { category: "swap", selector: "0xc04b8d59", description: "exactInput (SwapRouter)" },
+  { category: "swap", selector: "0xb858183f", description: "exactInput (SwapRouter02)" },
+  { category: "swap", selector: "0xdb3e2198", description: "exactOutputSingle (SwapRouter)" },
+  { category: "swap", selector: "0x5023b4df", description: "exactOutputSingle (SwapRouter02)" },
+  { category: "swap", selector: "0xf28c0498", description: "exactOutput (SwapRouter)" },
+  { category: "swap", selector: "0x09b81346", description: "exactOutput (SwapRouter02)" },
+
+  // DEX Swaps - Universal Router and aggregators
+  { category: "swap", selector: "0x3593564c", description: "execute(bytes,bytes[],uint256) (Universal Router)" },
+  { category: "swap", selector: "0x24856bc3", description: "execute(bytes,bytes[]) (Universal Router)" },
+  { category: "swap", selector: "0x12aa3caf", description: "swap (1inch AggregationRouterV5)" },
+  { category: "swap", selector: "0x0502b1c5", description: "unoswap (1inch AggregationRouterV5)" },
+  { category: "swap", selector: "0xe449022e", description: "uniswapV3Swap (1inch AggregationRouterV5)" },
+  { category: "swap", selector: "0x415565b0", description: "transformERC20 (0x Exchange Proxy)" },
+
+  // Liquidity provision
+  { category: "liquidity", selector: "0xe8e33700", description: "addLiquidity" },
+  { category: "liquidity", selector: "0xf305d719", description: "addLiquidityETH" },
+  { category: "liquidity", selector: "0xbaa2abde", description: "removeLiquidity" },
+  { category: "liquidity", selector: "0x02751cec", description: "removeLiquidityETH" },
+  { category: "liquidity", selector: "0x88316456", description: "mint (Uniswap V3 NonfungiblePositionManager)" },
+  { category: "liquidity", selector: "0x219f5d17", description: "increaseLiquidity" },
+  { category: "liquidity", selector: "0x0c49ccbe", description: "decreaseLiquidity" },
+  { category: "liquidity", selector: "0xfc6f7865", description: "collect" },
+
+  // Minting
+  { category: "mint", selector: "0x40c10f19", description: "mint(address,uint256)" },
+  { category: "mint", selector: "0xa0712d68", description: "mint(uint256)" },
+  { category: "mint", selector: "0x4f02c420", description: "mintPosition" },
+
+  // Burning
+  { category: "burn", selector: "0x42966c68", description: "burn(uint256)" },
+  { category: "burn", selector: "0x9dc29fac", description: "burn(address,uint256)" },
+  { category: "burn", selector: "0xa399b6a2", description: "burnPosition" },
+
+  // Staking
+  { category: "stake", selector: "0xa694fc3a", description: "stake(uint256)" },
+  { category: "stake", selector: "0xb6b55f25", description: "deposit(uint256)" },
+  { category: "stake", selector: "0x6e553f65", description: "deposit(uint256,address)" },
+  { category: "stake", selector: "0xe2bbb158", description: "deposit(uint256,uint256)" },
+
+  // Withdrawals - unstaking and unwrapping
+  { category: "withdraw", selector: "0x2e1a7d4d", description: "withdraw(uint256)" },
+  { category: "withdraw", selector: "0x2e17de78", description: "unstake(uint256)" },
+
+  // Wrapping native MON
+  { category: "wrap", selector: "0xd0e30db0", description: "deposit()" },
+
+  // Reward claims
+  { category: "claim", selector: "0x4e71d92d", description: "claim()" },
+  { category: "claim", selector: "0x379607f5", description: "claim(uint256)" },
+  { category: "claim", selector: "0x1e83409a", description: "claim(address)" },
+  { category: "claim", selector: "0x3d18b912", description: "getReward()" },
+
+  // NFT transfers and marketplace trades
+  { category: "nft-transfer", selector: "0x42842e0e", description: "safeTransferFrom(address,address,uint256)" },
+  { category: "nft-transfer", selector: "0xb88d4fde", description: "safeTransferFrom(address,address,uint256,bytes)" },
+  { category: "nft-transfer", selector: "0xf242432a", description: "safeTransferFrom (ERC1155)" },
+  { category: "nft-transfer", selector: "0x2eb2c2d6", description: "safeBatchTransferFrom (ERC1155)" },
+  { category: "nft-trade", selector: "0xfb0f3ee1", description: "fulfillBasicOrder (Seaport)" },
+  { category: "nft-trade", selector: "0xb3a34c4c", description: "fulfillOrder (Seaport)" },
+  { category: "nft-trade", selector: "0xe7acab24", description: "fulfillAdvancedOrder (Seaport)" },
+  { category: "nft-trade", selector: "0x87201b41", description: "fulfillAvailableAdvancedOrders (Seaport)" },
+
+  // Governance
+  { category: "governance", selector: "0x56781388", description: "castVote(uint256,uint8)" },
+  { category: "governance", selector: "0x7b3c71d3", description: "castVoteWithReason(uint256,uint8,string)" },
+  { category: "governance", selector: "0x3bccf4fd", description: "castVoteBySig" },
+  { category: "governance", selector: "0x7d5e81e2", description: "propose(address[],uint256[],bytes[],string)" },
+  { category: "governance", selector: "0x5c19a95c", description: "delegate(address)" },
+
+  // Bridges are usually recognised by contract address; add entries such as
+  // { category: "bridge", contract: "0x..." } to CLASSIFIER_RULES_FILE.
+];
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { classifyTransaction, getTransactionCategories } from "./classifier";
+
+const ONE_MON = 10n ** 18n;
+const WMON = "0x760AfE86e5de5fa0Ee542fc7B7B713e1c5425701";
+
+describe("classifyTransaction", () => {
+  it("treats value with no call data as a plain transfer", () => {
+    expect(classifyTransaction({ input: "0x", to: WMON, value: ONE_MON })).toBe("transfer");
+    expect(classifyTransaction({ input: "", to: WMON, value: ONE_MON })).toBe("transfer");
+  });
+
+  it("classifies payable selector-only calls by their rule", () => {
+    expect(classifyTransaction({ input: "0xd0e30db0", to: WMON, value: ONE_MON })).toBe("wrap");
+    expect(classifyTransaction({ input: "0x4e71d92d", to: WMON, value: ONE_MON })).toBe("claim");
+  });
+
+  it("matches selectors case-insensitively and ignores the arguments", () => {
+    const input = "0xA9059CBB" + "00".repeat(64);
+    expect(classifyTransaction({ input, to: WMON, value: 0n })).toBe("transfer");
+    expect(classifyTransaction({ input: "0x2e1a7d4d" + "00".repeat(32), to: WMON, value: 0n })).toBe("withdraw");
+  });
+
+  it("falls back to other for unknown selectors and empty calls", () => {
+    expect(classifyTransaction({ input: "0xdeadbeef", to: WMON, value: ONE_MON })).toBe("other");
+    expect(classifyTransaction({ input: "0x", to: WMON, value: 0n })).toBe("other");
+    expect(classifyTransaction({ input: "0x60806040", to: null, value: 0n })).toBe("other");
+  });
+
+  it("lists the core categories and every rule category", () => {
+    const categories = getTransactionCategories();
+    expect(categories).toEqual(expect.arrayContaining(["transfer", "swap", "mint", "burn", "stake", "other", "wrap"]));
+    expect(new Set(categories).size).toBe(categories.length);
+  });
+});
@@ -0,0 +1,107 @@
+import { readFileSync } from "fs";
+import { CORE_CATEGORIES, defaultRules, type ClassifierRule } from "./classifier-rules";
+
+// Optional JSON file with extra rules (same shape as ClassifierRule)
+const RULES_FILE = process.env.CLASSIFIER_RULES_FILE;
+
+const SELECTOR_PATTERN = /^0x[a-fA-F0-9]{8}$/;
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+// An optional field is either absent or a string matching the pattern
+function isOptionalMatch(value: unknown, pattern: RegExp): boolean {
+  return value === undefined || (typeof value === "string" && pattern.test(value));
+}
+
+function isValidRule(value: unknown): value is ClassifierRule {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const rule = value as Record<string, unknown>;
+  if (typeof rule.category !== "string" || rule.category.length === 0) return false;
+  if (rule.selector === undefined && rule.contract === undefined) return false;
+  if (!isOptionalMatch(rule.selector, SELECTOR_PATTERN) || !isOptionalMatch(rule.contract, ADDRESS_PATTERN)) return false;
+  return rule.description === undefined || typeof rule.description === "string";
+}
+
+function loadRulesFile(path: string): ClassifierRule[] {
+  const parsed: unknown = JSON.parse(readFileSync(path, "utf8"));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Classifier rules file ${path} must contain a JSON array`);
+  }
+
+  const entries: readonly unknown[] = parsed;
+  const invalid = entries.filter((rule) => !isValidRule(rule));
+  if (invalid.length > 0) {
+    throw new Error(`Classifier rules file ${path} has ${invalid.length} invalid rule(s): ${JSON.stringify(invalid[0])}`);
+  }
+  return entries.filter(isValidRule);
+}
+
+// User rules come first so they override built-ins with the same key
+const activeRules: ClassifierRule[] = [
+  ...(RULES_FILE ? loadRulesFile(RULES_FILE) : []),
+  ...defaultRules,
+];
+
+// Lookup tables, most specific first: contract+selector, contract, selector
+const byContractAndSelector = new Map<string, string>();
+const byContract = new Map<string, string>();
+const bySelector = new Map<string, string>();
+
+function register(table: Map<string, string>, key: string, category: string) {
+  if (!table.has(key)) {
+    table.set(key, category);
+  }
+}
+
+for (const rule of activeRules) {
+  const selector = rule.selector?.toLowerCase();
+  const contract = rule.contract?.toLowerCase();
+  if (contract && selector) {
+    register(byContractAndSelector, `${contract}-${selector}`, rule.category);
+  } else if (contract) {
+    register(byContract, contract, rule.category);
+  } else if (selector) {
+    register(bySelector, selector, rule.category);
+  }
+}
+
+const categories = Array.from(
+  new Set<string>([...CORE_CATEGORIES, ...activeRules.map((rule) => rule.category)])
+);
+
+export interface ClassifiableTransaction {
+  input: string;
+  to: string | null;
+  value: bigint;
+}
+
+// Classify a transaction using the active rule registry
+export function classifyTransaction(tx: ClassifiableTransaction): string {
+  const input = tx.input || "0x";
+
+  // Plain MON transfers carry value and no call data. Payable calls with only a
+  // selector, like deposit(), go through the rules below.
+  if (tx.value > 0n && input === "0x") {
+    return "transfer";
+  }
+
+  const selector = input.slice(0, 10).toLowerCase();
+  const contract = tx.to?.toLowerCase();
+
+  if (contract) {
+    const category =
+      byContractAndSelector.get(`${contract}-${selector}`) ?? byContract.get(contract);
+    if (category) return category;
+  }
+
+  return bySelector.get(selector) ?? "other";
+}
+
+// All categories a transaction can be classified as
+export function getTransactionCategories(): string[] {
+  return categories;
+}
+
+// Active rules in match order, for inspection through the API
+export function getClassifierRules(): ClassifierRule[] {
+  return activeRules;
+}
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { EventBuffer } from './event-replay';
+import type { Event } from './websocket';
+
+let seq = 0;
+
+// A networkStats event from a block of a chain, numbered like a broadcast one
+function broadcast(chainId: number, blockNumber: bigint): Event {
+  return {
+    type: 'networkStats',
+    data: { blockNumber, tps: 1, windowSize: 10 },
+    timestamp: 0,
+    chainId,
+    blockNumber,
+    seq: ++seq
+  };
+}
+
+const seqs = (events: Event[]) => events.map((event) => event.seq);
+
+describe('EventBuffer', () => {
+  beforeEach(() => {
+    seq = 0;
+  });
+
+  it('returns the events after a seq, oldest first', () => {
+    const buffer = new EventBuffer(10);
+    for (const block of [1n, 1n, 2n, 3n]) buffer.push(broadcast(1, block));
+
+    expect(seqs(buffer.since(0))).toEqual([1, 2, 3, 4]);
+    expect(seqs(buffer.since(2))).toEqual([3, 4]);
+    expect(buffer.since(4)).toEqual([]);
+  });
+
+  it('evicts the oldest events once full', () => {
+    const buffer = new EventBuffer(3);
+    for (const block of [1n, 2n, 3n, 4n, 5n]) buffer.push(broadcast(1, block));
+
+    expect(seqs(buffer.since(0))).toEqual([3, 4, 5]);
+    expect(buffer.coversSeq(1, 5)).toBe(false);
+    expect(buffer.coversSeq(2, 5)).toBe(true);
+    expect(buffer.coversSeq(5, 5)).toBe(true);
+    expect(buffer.coversSeq(6, 5)).toBe(false);
+  });
+
+  it('covers a block only while all of its events are buffered', () => {
+    const buffer = new EventBuffer(3);
+    expect(buffer.coveredFromBlock(1)).toBeUndefined();
+
+    buffer.push(broadcast(1, 10n));
+    buffer.push(broadcast(1, 10n));
+    buffer.push(broadcast(1, 11n));
+    expect(buffer.coveredFromBlock(1)).toBe(10n);
+
+    // Evicts half of block 10
+    buffer.push(broadcast(1, 12n));
+    expect(buffer.coveredFromBlock(1)).toBe(11n);
+  });
+
+  it('tracks coverage per chain', () => {
+    const buffer = new EventBuffer(3);
+    buffer.push(broadcast(1, 10n));
+    buffer.push(broadcast(2, 500n));
+    buffer.push(broadcast(2, 501n));
+    buffer.push(broadcast(2, 502n));
+
+    expect(buffer.coveredFromBlock(1)).toBe(11n);
+    expect(buffer.coveredFromBlock(2)).toBe(500n);
+  });
+
+  it('returns buffered events from each chain starting block', () => {
+    const buffer = new EventBuffer(10);
+    buffer.push(broadcast(1, 10n));
+    buffer.push(broadcast(2, 500n));
+    buffer.push(broadcast(1, 11n));
+    buffer.push({ type: 'networkStats', data: { blockNumber: 12n, tps: 1, windowSize: 10 }, timestamp: 0, seq: ++seq });
+
+    expect(seqs(buffer.fromBlocks(new Map([[1, 11n]])))).toEqual([3]);
+    expect(seqs(buffer.fromBlocks(new Map([[1, 0n], [2, 500n]])))).toEqual([1, 2, 3]);
+  });
+});
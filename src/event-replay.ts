@@ -0,0 +1,218 @@
+import { Pool } from 'pg';
+import type { Event, TransactionEvent } from './websocket';
+import type { SubscriptionFilter } from './subscription-filters';
+
+// Replay support for reconnecting WebSocket clients.
+//
+// Broadcast events are kept in a bounded ring buffer. A client that resumes
+// from a sequence number still in the buffer gets exactly what it missed. A
+// client resuming from a block number older than the buffer gets transaction
+// events for the missing blocks from the persisted `transactions` table, then
+// the buffered events.
+
+// ==============================================
+// RING BUFFER
+// ==============================================
+
+export class EventBuffer {
+  private readonly items: (Event | undefined)[];
+  private start = 0;
+  private size = 0;
+  // Seq of the newest evicted event; sinceSeq values below it are gone
+  private evictedThroughSeq = 0;
+  // Per chain, the lowest block whose events are all still buffered
+  private readonly coveredFrom = new Map<number, bigint>();
+
+  constructor(readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  push(event: Event) {
+    if (event.chainId !== undefined && event.blockNumber !== undefined && !this.coveredFrom.has(event.chainId)) {
+      this.coveredFrom.set(event.chainId, event.blockNumber);
+    }
+
+    if (this.size === this.capacity) {
+      const evicted = this.items[this.start]!;
+      this.evict(evicted);
+      this.items[this.start] = event;
+      this.start = (this.start + 1) % this.capacity;
+    } else {
+      this.items[(this.start + this.size) % this.capacity] = event;
+      this.size++;
+    }
+  }
+
+  private evict(event: Event) {
+    this.evictedThroughSeq = event.seq ?? this.evictedThroughSeq;
+    if (event.chainId === undefined || event.blockNumber === undefined) return;
+    // Part of this block is gone, so the buffer only fully covers later blocks
+    const covered = this.coveredFrom.get(event.chainId);
+    if (covered === undefined || covered <= event.blockNumber) {
+      this.coveredFrom.set(event.chainId, event.blockNumber + 1n);
+    }
+  }
+
+  // Oldest first
+  private *entries(): Generator<Event> {
+    for (let i = 0; i < this.size; i++) {
+      yield this.items[(this.start + i) % this.capacity]!;
+    }
+  }
+
+  // Whether every event after `seq` is still buffered
+  coversSeq(seq: number, latestSeq: number): boolean {
+    return seq >= this.evictedThroughSeq && seq <= latestSeq;
+  }
+
+  since(seq: number): Event[] {
+    return Array.from(this.entries()).filter((event) => event.seq !== undefined && event.seq > seq);
+  }
+
+  // Lowest block of `chainId` fully held in the buffer; undefined if no events were seen
+  coveredFromBlock(chainId: number): bigint | undefined {
+    return this.coveredFrom.get(chainId);
+  }
+
+  // Buffered events at or above each chain's starting block
+  fromBlocks(startBlocks: Map<number, bigint>): Event[] {
+    return Array.from(this.entries()).filter((event) => {
+      if (event.chainId === undefined || event.blockNumber === undefined) return false;
+      const start = startBlocks.get(event.chainId);
+      return start !== undefined && event.blockNumber >= start;
+    });
+  }
+}
+
+// ==============================================
+// DATABASE FALLBACK
+// ==============================================
+
+// Upper bound on rows read from the database for one replay
+export const MAX_DATABASE_REPLAY_ROWS = parseInt(process.env.WS_REPLAY_MAX_ROWS || '5000');
+
+let pool: Pool | undefined;
+
+// Only Postgres deployments can be queried from outside Ponder
+function getPool(): Pool | undefined {
+  if (!process.env.DATABASE_URL) return undefined;
+  pool ??= new Pool({ connectionString: process.env.DATABASE_URL, max: 2 });
+  return pool;
+}
+
+export function isDatabaseReplayAvailable(): boolean {
+  return Boolean(process.env.DATABASE_URL);
+}
+
+// Block range [fromBlock, toBlock) to load for one chain; no toBlock = up to the head
+export interface BlockRange {
+  chainId: number;
+  fromBlock: bigint;
+  toBlock?: bigint;
+}
+
+interface TransactionRow {
+  chain_id: number;
+  hash: string;
+  block_number: string;
+  block_timestamp: string | null;
+  from_address: string | null;
+  to_address: string | null;
+  value: string | null;
+  gas_used: string | null;
+  gas_price: string | null;
+  transaction_type: string | null;
+  method_signature: string | null;
+  success: boolean | null;
+  contract_address: string | null;
+}
+
+// The client's filters as SQL, so the row limit applies to matching rows only
+function filterConditions(filter: SubscriptionFilter, params: unknown[]): string[] {
+  const conditions: string[] = [];
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (filter.from) conditions.push(`lower(from_address) = ANY(${param(Array.from(filter.from))})`);
+  if (filter.to) conditions.push(`lower(to_address) = ANY(${param(Array.from(filter.to))})`);
+  if (filter.address) {
+    const addresses = param(Array.from(filter.address));
+    conditions.push(`(lower(from_address) = ANY(${addresses}) OR lower(to_address) = ANY(${addresses}))`);
+  }
+  if (filter.contract) conditions.push(`lower(contract_address) = ANY(${param(Array.from(filter.contract))})`);
+  if (filter.transactionType) {
+    conditions.push(`lower(transaction_type) = ANY(${param(Array.from(filter.transactionType))})`);
+  }
+  if (filter.methodSignature) {
+    conditions.push(`lower(method_signature) = ANY(${param(Array.from(filter.methodSignature))})`);
+  }
+  if (filter.minValue !== undefined) conditions.push(`value >= ${param(filter.minValue.toString())}`);
+
+  return conditions;
+}
+
+function toTransactionEvent(row: TransactionRow): Event {
+  const data: TransactionEvent = {
+    hash: row.hash,
+    blockNumber: BigInt(row.block_number),
+    blockTimestamp: BigInt(row.block_timestamp ?? 0),
+    fromAddress: row.from_address ?? '',
+    toAddress: row.to_address ?? '',
+    value: BigInt(row.value ?? 0),
+    gasUsed: BigInt(row.gas_used ?? 0),
+    gasPrice: BigInt(row.gas_price ?? 0),
+    transactionType: row.transaction_type ?? '',
+    methodSignature: row.method_signature ?? '',
+    success: row.success ?? false,
+    contractAddress: row.contract_address ?? ''
+  };
+  return {
+    type: 'transaction',
+    chainId: row.chain_id,
+    blockNumber: data.blockNumber,
+    data,
+    timestamp: Date.now()
+  };
+}
+
+// Transaction events for the given block ranges, oldest first. Returns at most
+// MAX_DATABASE_REPLAY_ROWS events and whether more were available.
+export async function loadTransactionEvents(
+  ranges: BlockRange[],
+  filter: SubscriptionFilter
+): Promise<{ events: Event[]; truncated: boolean }> {
+  const db = getPool();
+  if (!db || ranges.length === 0) return { events: [], truncated: false };
+
+  const params: unknown[] = [];
+  const rangeConditions = ranges.map((range) => {
+    params.push(range.chainId, range.fromBlock.toString());
+    let condition = `(chain_id = $${params.length - 1} AND block_number >= $${params.length}`;
+    if (range.toBlock !== undefined) {
+      params.push(range.toBlock.toString());
+      condition += ` AND block_number < $${params.length}`;
+    }
+    return `${condition})`;
+  });
+  const conditions = [`(${rangeConditions.join(' OR ')})`, ...filterConditions(filter, params)];
+  params.push(MAX_DATABASE_REPLAY_ROWS + 1);
+
+  const schema = process.env.DATABASE_SCHEMA || 'public';
+  const result = await db.query<TransactionRow>(
+    `SELECT chain_id, hash, block_number, block_timestamp, from_address, to_address, value, gas_used,
+            gas_price, transaction_type, method_signature, success, contract_address
+       FROM "${schema.replace(/"/g, '""')}".transactions
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY block_number, chain_id, transaction_index
+      LIMIT $${params.length}`,
+    params
+  );
+
+  const truncated = result.rows.length > MAX_DATABASE_REPLAY_ROWS;
+  return {
+    events: result.rows.slice(0, MAX_DATABASE_REPLAY_ROWS).map(toTransactionEvent),
+    truncated
+  };
+}
@@ -1,63 +1,130 @@
 import { ponder } from "ponder:registry";
-import { eventEmitter, updateBlockTracking } from './websocket';
+import {
+  blocks,
+  transactions,
+  contractUsage,
+  walletContractInteractions,
+  walletGasUsage,
+  monTransfers,
+  monWalletActivity,
+  tokenTransfers,
+  tokenWalletActivity,
+} from "ponder:schema";
+import { completeBlock, eventEmitter, updateBlockTracking } from './websocket';
+import { fetchBlockReceipts } from './receipts';
+import { decodeTokenTransfer, ensureTokens } from './tokens';
+import { classifyTransaction } from './classifier';
+import { dominantType, updateRollups } from './rollups';
+import { evaluateAlerts } from './alerts';
+import * as metrics from './metrics';
+import { logger, sampleBlock, type LogFields } from './logger';
 
-// Efficient transaction type classifier based on method signatures only
-function classifyTransactionByMethodSig(input: string): string {
-  const methodSig = input.slice(0, 10).toLowerCase();
-  
-  const signatures = {
-    // ERC20 Transfer
-    "0xa9059cbb": "transfer", // transfer(address,uint256)
-    "0x23b872dd": "transfer", // transferFrom(address,address,uint256)
-    
-    // DEX Swaps
-    "0x7ff36ab5": "swap", // swapExactETHForTokens
-    "0x18cbafe5": "swap", // swapExactTokensForETH
-    "0x38ed1739": "swap", // swapExactTokensForTokens
-    "0x8803dbee": "swap", // swapTokensForExactTokens
-    "0x5c11d795": "swap", // swapExactTokensForTokensSupportingFeeOnTransferTokens
-    "0x791ac947": "swap", // swapExactTokensForETHSupportingFeeOnTransferTokens
-    "0x022c0d9f": "swap", // swap(uint256,uint256,address,bytes)
-    
-    // Minting
-    "0x40c10f19": "mint", // mint(address,uint256)
-    "0xa0712d68": "mint", // mint(uint256)
-    "0x4f02c420": "mint", // mintPosition
-    
-    // Burning
-    "0x42966c68": "burn", // burn(uint256)
-    "0x9dc29fac": "burn", // burn(address,uint256)
-    "0xa399b6a2": "burn", // burnPosition
-    
-    // Staking
-    "0xa694fc3a": "stake", // stake(uint256)
-    "0x2e1a7d4d": "stake", // withdraw(uint256) - could be unstaking
-    "0xb6b55f25": "stake", // deposit(uint256)
-    "0xe2bbb158": "stake", // deposit(uint256,address)
-    "0x379607f5": "stake", // claim()
-    "0x4e71d92d": "stake", // claim(address)
-  };
+// Per-block aggregate shapes, flushed to the analytics tables after each block
+interface ContractAggregate {
+  transactionCount: number;
+  gasUsed: bigint;
+  typeCounts: Map<string, number>;
+}
+
+interface WalletContractAggregate extends ContractAggregate {
+  walletAddress: `0x${string}`;
+  contractAddress: `0x${string}`;
+}
+
+interface WalletGasAggregate {
+  totalGasUsed: bigint;
+  transactionCount: number;
+  contracts: Set<string>;
+}
+
+interface MonWalletAggregate {
+  totalSent: bigint;
+  totalReceived: bigint;
+  sentCount: number;
+  receivedCount: number;
+}
 
-  return signatures[methodSig as keyof typeof signatures] || "other";
+interface TokenWalletAggregate extends MonWalletAggregate {
+  tokenAddress: `0x${string}`;
+  walletAddress: `0x${string}`;
+}
+
+const emptyContractAggregate = (): ContractAggregate => ({
+  transactionCount: 0,
+  gasUsed: 0n,
+  typeCounts: new Map(),
+});
+
+const emptyWalletGasAggregate = (): WalletGasAggregate => ({
+  totalGasUsed: 0n,
+  transactionCount: 0,
+  contracts: new Set(),
+});
+
+const emptyMonWalletAggregate = (): MonWalletAggregate => ({
+  totalSent: 0n,
+  totalReceived: 0n,
+  sentCount: 0,
+  receivedCount: 0,
+});
+
+const log = logger.child({ module: 'indexer' });
+
+// The emoji summary printed per block with LOG_FORMAT=pretty
+function blockBanner(_message: string, fields: LogFields): string {
+  const types = fields.types as Record<string, number>;
+  return [
+    `📦 Block ${(fields.block as bigint).toLocaleString()} processed on ${fields.chain} in ${fields.durationMs}ms`,
+    `   📊 Transactions: ${fields.transactions}`,
+    `   💸 Transfers: ${types.transfer}`,
+    `   🔄 Swaps: ${types.swap}`,
+    `   🏭 Mints: ${types.mint}`,
+    `   🔥 Burns: ${types.burn}`,
+    `   🥩 Stakes: ${types.stake}`,
+    `   ❓ Other: ${types.other}`,
+    `   🪙 Token transfers: ${fields.tokenTransfers}`,
+    '─'.repeat(60)
+  ].join('\n');
+}
+
+function getOrInit<K, V>(map: Map<K, V>, key: K, init: () => V): V {
+  let value = map.get(key);
+  if (value === undefined) {
+    value = init();
+    map.set(key, value);
+  }
+  return value;
 }
 
 ponder.on("monadBlocks:block", async ({ event, context }) => {
   const { block } = event;
   const { client } = context;
+  const chainId = context.chain.id;
+  const started = performance.now();
   
   // Get full block with transactions for analysis
-  const fullBlock = await client.getBlock({
-    blockNumber: block.number,
-    includeTransactions: true,
-  });
+  const fullBlock = await metrics.timeRpc(chainId, "eth_getBlockByNumber", () =>
+    client.getBlock({
+      blockNumber: block.number,
+      includeTransactions: true,
+    })
+  );
   
   const transactionCount = fullBlock.transactions?.length || 0;
+
+  // Receipts carry the actual gas used, effective gas price, status and created contract
+  const receipts = await fetchBlockReceipts(
+    client,
+    chainId,
+    block.number,
+    fullBlock.transactions.map((tx) => tx.hash)
+  );
   
-  // Update block tracking for TPS calculation
-  updateBlockTracking(block.number, block.timestamp, transactionCount);
+  // Update block tracking for TPS calculation (rolls back orphaned blocks on reorg)
+  updateBlockTracking(chainId, block.number, block.hash, block.parentHash, block.timestamp, transactionCount);
   
   // Track transaction type counts
-  const txTypeCounts = {
+  const txTypeCounts: Record<string, number> = {
     transfer: 0,
     swap: 0,
     mint: 0,
@@ -65,10 +132,23 @@ ponder.on("monadBlocks:block", async ({ event, context }) => {
     stake: 0,
     other: 0,
   };
+
+  // Per-block aggregates, written once all transactions have been classified
+  const transactionRows: (typeof transactions.$inferInsert)[] = [];
+  const monTransferRows: (typeof monTransfers.$inferInsert)[] = [];
+  const contractAggregates = new Map<`0x${string}`, ContractAggregate>();
+  const walletContractAggregates = new Map<string, WalletContractAggregate>();
+  const walletGasAggregates = new Map<`0x${string}`, WalletGasAggregate>();
+  const monWalletAggregates = new Map<`0x${string}`, MonWalletAggregate>();
+  const tokenTransferRows: (typeof tokenTransfers.$inferInsert)[] = [];
+  const tokenWalletAggregates = new Map<string, TokenWalletAggregate>();
+  const tokenAddresses = new Set<`0x${string}`>();
   
   // Emit block event
   eventEmitter.emit({
     type: 'block',
+    chainId,
+    blockNumber: block.number,
     data: {
       number: block.number,
       hash: block.hash,
@@ -85,30 +165,51 @@ ponder.on("monadBlocks:block", async ({ event, context }) => {
     const tx = txList[i];
     if (!tx) continue;
     
+    const receipt = receipts.get(tx.hash);
+    if (!receipt) {
+      throw new Error(`Missing receipt for transaction ${tx.hash} in block ${block.number}`);
+    }
+    
     const input = tx.input || "0x";
-    const gasUsed = BigInt(tx.gas || 0);
+    const gasUsed = receipt.gasUsed;
+    const gasPrice = receipt.effectiveGasPrice ?? tx.gasPrice ?? 0n;
+    const success = receipt.status === "success";
     const walletAddress = tx.from;
     const monAmount = BigInt(tx.value || 0);
-    
-    let txType: string;
-    let contractAddress: string | null = null;
+    const txIndex = tx.transactionIndex ?? i;
     
     // Classify transaction type
-    if (monAmount > 0n && (input === "0x" || input.length <= 10)) {
-      txType = "transfer";
-      txTypeCounts.transfer++;
-      if (tx.to) {
-        contractAddress = tx.to;
-      }
-    } else {
-      txType = classifyTransactionByMethodSig(input);
-      txTypeCounts[txType as keyof typeof txTypeCounts]++;
-      contractAddress = tx.to;
-    }
+    const txType = classifyTransaction({ input, to: tx.to, value: monAmount });
+    txTypeCounts[txType] = (txTypeCounts[txType] ?? 0) + 1;
+
+    // Deployments have no `to`; attribute them to the created contract
+    const contractAddress: `0x${string}` | null = tx.to ?? receipt.contractAddress ?? null;
+
+    transactionRows.push({
+      chainId,
+      hash: tx.hash,
+      blockNumber: block.number,
+      blockTimestamp: block.timestamp,
+      transactionIndex: txIndex,
+      fromAddress: walletAddress,
+      toAddress: tx.to,
+      value: monAmount,
+      gasUsed,
+      gasPrice,
+      gasLimit: tx.gas || 0n,
+      transactionType: txType,
+      methodSignature: input.slice(0, 10),
+      inputData: input,
+      success,
+      nonce: BigInt(tx.nonce),
+      contractAddress,
+    });
 
     // Emit transaction event
     eventEmitter.emit({
       type: 'transaction',
+      chainId,
+      blockNumber: block.number,
       data: {
         hash: tx.hash,
         blockNumber: block.number,
@@ -116,26 +217,50 @@ ponder.on("monadBlocks:block", async ({ event, context }) => {
         fromAddress: tx.from,
         toAddress: tx.to || '',
         value: tx.value,
-        gasUsed: tx.gas || 0n,
-        gasPrice: tx.gasPrice || 0n,
+        gasUsed,
+        gasPrice,
         transactionType: txType,
         methodSignature: tx.input.slice(0, 10),
-        success: true,
-        contractAddress: tx.to || ''
+        success,
+        contractAddress: contractAddress || ''
       },
       timestamp: Date.now()
     });
 
     // If it's a MON transfer, emit transfer event
     if (monAmount > 0n) {
+      monTransferRows.push({
+        id: `${chainId}-${block.number}-${txIndex}`,
+        chainId,
+        blockNumber: block.number,
+        blockTimestamp: block.timestamp,
+        transactionHash: tx.hash,
+        fromAddress: walletAddress,
+        toAddress: tx.to,
+        amount: monAmount,
+        gasUsed,
+      });
+
+      const sender = getOrInit(monWalletAggregates, walletAddress, emptyMonWalletAggregate);
+      sender.totalSent += monAmount;
+      sender.sentCount++;
+
+      if (tx.to) {
+        const receiver = getOrInit(monWalletAggregates, tx.to, emptyMonWalletAggregate);
+        receiver.totalReceived += monAmount;
+        receiver.receivedCount++;
+      }
+
       eventEmitter.emit({
         type: 'monTransfer',
+        chainId,
+        blockNumber: block.number,
         data: {
           transactionHash: tx.hash,
           fromAddress: tx.from,
           toAddress: tx.to || '',
           amount: tx.value,
-          gasUsed: tx.gas || 0n
+          gasUsed
         },
         timestamp: Date.now()
       });
@@ -143,6 +268,8 @@ ponder.on("monadBlocks:block", async ({ event, context }) => {
       // Update and emit wallet activity
       eventEmitter.emit({
         type: 'monWalletActivity',
+        chainId,
+        blockNumber: block.number,
         data: {
           walletAddress: tx.from,
           totalSent: tx.value,
@@ -157,6 +284,8 @@ ponder.on("monadBlocks:block", async ({ event, context }) => {
       if (tx.to) {
         eventEmitter.emit({
           type: 'monWalletActivity',
+          chainId,
+          blockNumber: block.number,
           data: {
             walletAddress: tx.to,
             totalSent: 0n,
@@ -172,13 +301,30 @@ ponder.on("monadBlocks:block", async ({ event, context }) => {
 
     // If it's a contract interaction, emit contract usage event
     if (contractAddress) {
+      const target = contractAddress;
+      const contract = getOrInit(contractAggregates, target, emptyContractAggregate);
+      contract.transactionCount++;
+      contract.gasUsed += gasUsed;
+      contract.typeCounts.set(txType, (contract.typeCounts.get(txType) ?? 0) + 1);
+
+      const interaction = getOrInit(
+        walletContractAggregates,
+        `${walletAddress}-${target}`,
+        () => ({ ...emptyContractAggregate(), walletAddress, contractAddress: target })
+      );
+      interaction.transactionCount++;
+      interaction.gasUsed += gasUsed;
+      interaction.typeCounts.set(txType, (interaction.typeCounts.get(txType) ?? 0) + 1);
+
       eventEmitter.emit({
         type: 'contractUsage',
+        chainId,
+        blockNumber: block.number,
         data: {
-          contractAddress: tx.to || '',
+          contractAddress: target,
           transactionCount: 1,
-          gasUsed: tx.gas || 0n,
-          avgGasPerTx: tx.gas || 0n,
+          gasUsed,
+          avgGasPerTx: gasUsed,
           transactionType: txType
         },
         timestamp: Date.now()
@@ -187,42 +333,238 @@ ponder.on("monadBlocks:block", async ({ event, context }) => {
       // Emit wallet-contract interaction event
       eventEmitter.emit({
         type: 'walletContractInteraction',
+        chainId,
+        blockNumber: block.number,
         data: {
           walletAddress: tx.from,
-          contractAddress: tx.to || '',
+          contractAddress: target,
           transactionCount: 1,
-          gasUsed: tx.gas || 0n,
-          avgGasPerTx: tx.gas || 0n,
+          gasUsed,
+          avgGasPerTx: gasUsed,
           transactionType: txType
         },
         timestamp: Date.now()
       });
     }
 
+    const walletGas = getOrInit(walletGasAggregates, walletAddress, emptyWalletGasAggregate);
+    walletGas.totalGasUsed += gasUsed;
+    walletGas.transactionCount++;
+    if (contractAddress) {
+      walletGas.contracts.add(contractAddress);
+    }
+
+    // Decode ERC-20 Transfer logs, including those emitted by routers and multicalls
+    for (const log of receipt.logs) {
+      const transfer = decodeTokenTransfer(log);
+      if (!transfer) continue;
+
+      tokenAddresses.add(transfer.tokenAddress);
+
+      tokenTransferRows.push({
+        id: `${chainId}-${block.number}-${transfer.logIndex}`,
+        chainId,
+        blockNumber: block.number,
+        blockTimestamp: block.timestamp,
+        transactionHash: tx.hash,
+        logIndex: transfer.logIndex,
+        tokenAddress: transfer.tokenAddress,
+        fromAddress: transfer.fromAddress,
+        toAddress: transfer.toAddress,
+        amount: transfer.amount,
+      });
+
+      const sender = getOrInit(
+        tokenWalletAggregates,
+        `${transfer.tokenAddress}-${transfer.fromAddress}`,
+        () => ({ ...emptyMonWalletAggregate(), tokenAddress: transfer.tokenAddress, walletAddress: transfer.fromAddress })
+      );
+      sender.totalSent += transfer.amount;
+      sender.sentCount++;
+
+      const receiver = getOrInit(
+        tokenWalletAggregates,
+        `${transfer.tokenAddress}-${transfer.toAddress}`,
+        () => ({ ...emptyMonWalletAggregate(), tokenAddress: transfer.tokenAddress, walletAddress: transfer.toAddress })
+      );
+      receiver.totalReceived += transfer.amount;
+      receiver.receivedCount++;
+    }
+
     // Emit wallet gas usage event
     eventEmitter.emit({
       type: 'walletGasUsage',
+      chainId,
+      blockNumber: block.number,
       data: {
         walletAddress: tx.from,
-        totalGasUsed: tx.gas || 0n,
+        totalGasUsed: gasUsed,
         transactionCount: 1,
-        avgGasPerTx: tx.gas || 0n,
+        avgGasPerTx: gasUsed,
         contractsInteracted: 1
       },
       timestamp: Date.now()
     });
   }
 
-  // Log block processing info
-  console.log(`📦 Block ${block.number.toLocaleString()} processed`);
-  console.log(`   📊 Transactions: ${txList.length}`);
-  console.log(`   💸 Transfers: ${txTypeCounts.transfer}`);
-  console.log(`   🔄 Swaps: ${txTypeCounts.swap}`);
-  console.log(`   🏭 Mints: ${txTypeCounts.mint}`);
-  console.log(`   🔥 Burns: ${txTypeCounts.burn}`);
-  console.log(`   🥩 Stakes: ${txTypeCounts.stake}`);
-  console.log(`   ❓ Other: ${txTypeCounts.other}`);
-  console.log("─".repeat(60));
+  // Every event of this block has been emitted; batch clients get their frame now
+  completeBlock(chainId, block.number);
+
+  // Persist block and its aggregates
+  await context.db.insert(blocks).values({
+    chainId,
+    number: block.number,
+    hash: block.hash,
+    timestamp: block.timestamp,
+    transactionCount: txList.length,
+    gasUsed: block.gasUsed,
+    gasLimit: block.gasLimit,
+    transferCount: txTypeCounts.transfer,
+    swapCount: txTypeCounts.swap,
+    mintCount: txTypeCounts.mint,
+    burnCount: txTypeCounts.burn,
+    stakeCount: txTypeCounts.stake,
+    otherCount: txTypeCounts.other,
+    typeCounts: txTypeCounts,
+  });
+
+  if (transactionRows.length > 0) {
+    await context.db.insert(transactions).values(transactionRows);
+  }
+
+  if (monTransferRows.length > 0) {
+    await context.db.insert(monTransfers).values(monTransferRows);
+  }
+
+  if (contractAggregates.size > 0) {
+    await context.db.insert(contractUsage).values(
+      Array.from(contractAggregates, ([address, agg]) => ({
+        id: `${chainId}-${block.number}-${address}`,
+        chainId,
+        blockNumber: block.number,
+        blockTimestamp: block.timestamp,
+        contractAddress: address,
+        transactionCount: agg.transactionCount,
+        gasUsed: agg.gasUsed,
+        avgGasPerTx: agg.gasUsed / BigInt(agg.transactionCount),
+        transactionType: dominantType(agg.typeCounts),
+      }))
+    );
+  }
+
+  if (walletContractAggregates.size > 0) {
+    await context.db.insert(walletContractInteractions).values(
+      Array.from(walletContractAggregates.values(), (agg) => ({
+        id: `${chainId}-${block.number}-${agg.walletAddress}-${agg.contractAddress}`,
+        chainId,
+        blockNumber: block.number,
+        blockTimestamp: block.timestamp,
+        walletAddress: agg.walletAddress,
+        contractAddress: agg.contractAddress,
+        transactionCount: agg.transactionCount,
+        gasUsed: agg.gasUsed,
+        avgGasPerTx: agg.gasUsed / BigInt(agg.transactionCount),
+        transactionType: dominantType(agg.typeCounts),
+      }))
+    );
+  }
+
+  if (walletGasAggregates.size > 0) {
+    await context.db.insert(walletGasUsage).values(
+      Array.from(walletGasAggregates, ([address, agg]) => ({
+        id: `${chainId}-${block.number}-${address}`,
+        chainId,
+        blockNumber: block.number,
+        blockTimestamp: block.timestamp,
+        walletAddress: address,
+        totalGasUsed: agg.totalGasUsed,
+        transactionCount: agg.transactionCount,
+        avgGasPerTx: agg.totalGasUsed / BigInt(agg.transactionCount),
+        contractsInteracted: agg.contracts.size,
+      }))
+    );
+  }
+
+  if (monWalletAggregates.size > 0) {
+    await context.db.insert(monWalletActivity).values(
+      Array.from(monWalletAggregates, ([address, agg]) => ({
+        id: `${chainId}-${block.number}-${address}`,
+        chainId,
+        blockNumber: block.number,
+        blockTimestamp: block.timestamp,
+        walletAddress: address,
+        totalSent: agg.totalSent,
+        totalReceived: agg.totalReceived,
+        transferCount: agg.sentCount + agg.receivedCount,
+        sentCount: agg.sentCount,
+        receivedCount: agg.receivedCount,
+      }))
+    );
+  }
+
+  if (tokenTransferRows.length > 0) {
+    await ensureTokens(context, chainId, tokenAddresses, block.number, block.timestamp);
+    await context.db.insert(tokenTransfers).values(tokenTransferRows);
+  }
+
+  if (tokenWalletAggregates.size > 0) {
+    await context.db.insert(tokenWalletActivity).values(
+      Array.from(tokenWalletAggregates.values(), (agg) => ({
+        id: `${chainId}-${block.number}-${agg.tokenAddress}-${agg.walletAddress}`,
+        chainId,
+        blockNumber: block.number,
+        blockTimestamp: block.timestamp,
+        tokenAddress: agg.tokenAddress,
+        walletAddress: agg.walletAddress,
+        totalSent: agg.totalSent,
+        totalReceived: agg.totalReceived,
+        transferCount: agg.sentCount + agg.receivedCount,
+        sentCount: agg.sentCount,
+        receivedCount: agg.receivedCount,
+      }))
+    );
+  }
+
+  await updateRollups(context, {
+    chainId,
+    timestamp: block.timestamp,
+    transactionCount: txList.length,
+    gasUsed: block.gasUsed,
+    gasLimit: block.gasLimit,
+    typeCounts: txTypeCounts,
+    monTransferCount: monTransferRows.length,
+    monVolume: monTransferRows.reduce((sum, row) => sum + (row.amount ?? 0n), 0n),
+    contracts: contractAggregates,
+    wallets: walletGasAggregates,
+    monWallets: monWalletAggregates,
+  });
+
+  // Alert rules read this block's events and the rollups updated above
+  await evaluateAlerts(context, chainId, block.number);
+
+  const chain = metrics.chainLabel(chainId);
+  metrics.blocksProcessed.inc({ chain });
+  metrics.transactionsProcessed.inc({ chain }, txList.length);
+  for (const [type, count] of Object.entries(txTypeCounts)) {
+    metrics.transactionsClassified.inc({ chain, type }, count);
+  }
+  metrics.latestIndexedBlock.set({ chain }, Number(block.number));
+  metrics.latestIndexedBlockTimestamp.set({ chain }, Number(block.timestamp));
+
+  if (sampleBlock(block.number)) {
+    log.info('Block processed', {
+      chain,
+      chainId,
+      block: block.number,
+      durationMs: Math.round(performance.now() - started),
+      transactions: txList.length,
+      types: txTypeCounts,
+      monTransfers: monTransferRows.length,
+      tokenTransfers: tokenTransferRows.length,
+      contracts: contractAggregates.size,
+      wallets: walletGasAggregates.size
+    }, blockBanner);
+  }
 });
 
 
@@ -0,0 +1,92 @@
+// Structured logging for the indexer, the analytics API and the WebSocket
+// server. Each entry is one JSON line on stdout with a level, a message and
+// its fields, so logs can be filtered and queried instead of read.
+//
+// LOG_LEVEL=debug|info|warn|error (default info) drops entries below it.
+// LOG_FORMAT=pretty prints readable lines instead, for local development.
+// LOG_BLOCK_SAMPLE=N logs the summary of every Nth block only (default 1).
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+// Renders an entry in pretty mode, in place of the generic key=value line
+export type PrettyRenderer = (message: string, fields: LogFields) => string;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields, pretty?: PrettyRenderer): void;
+  info(message: string, fields?: LogFields, pretty?: PrettyRenderer): void;
+  warn(message: string, fields?: LogFields, pretty?: PrettyRenderer): void;
+  error(message: string, fields?: LogFields, pretty?: PrettyRenderer): void;
+  // Logger whose entries all carry these fields
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const LEVEL_ICONS: Record<LogLevel, string> = { debug: "🔍", info: "ℹ️ ", warn: "⚠️ ", error: "❌" };
+
+function parseLevel(value: string | undefined): LogLevel {
+  const level = value?.toLowerCase();
+  return level && level in LEVELS ? (level as LogLevel) : "info";
+}
+
+const MIN_LEVEL = LEVELS[parseLevel(process.env.LOG_LEVEL)];
+export const PRETTY_LOGS = process.env.LOG_FORMAT === "pretty";
+const BLOCK_SAMPLE = BigInt(Math.max(1, parseInt(process.env.LOG_BLOCK_SAMPLE || "1") || 1));
+
+// Whether a block's summary is logged under LOG_BLOCK_SAMPLE. Sampling by
+// block number keeps the same blocks logged across restarts and chains.
+export function sampleBlock(blockNumber: bigint): boolean {
+  return blockNumber % BLOCK_SAMPLE === 0n;
+}
+
+// Bigints as decimal strings and errors as their message and stack; anything
+// else JSON.stringify handles itself
+function toJsonValue(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function formatPrettyValue(value: unknown): string {
+  if (value instanceof Error) return value.message;
+  if (typeof value === "string" || typeof value === "bigint") return String(value);
+  return JSON.stringify(value, toJsonValue) ?? String(value);
+}
+
+function write(level: LogLevel, message: string, fields: LogFields, pretty?: PrettyRenderer) {
+  if (LEVELS[level] < MIN_LEVEL) return;
+
+  let line: string;
+  if (PRETTY_LOGS) {
+    if (pretty) {
+      line = pretty(message, fields);
+    } else {
+      const pairs = Object.entries(fields).map(([key, value]) => `${key}=${formatPrettyValue(value)}`);
+      line = [LEVEL_ICONS[level], message, ...pairs].join(" ");
+    }
+  } else {
+    line = JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...fields }, toJsonValue);
+  }
+  process.stdout.write(line + "\n");
+}
+
+function createLogger(bound: LogFields): Logger {
+  const at =
+    (level: LogLevel) =>
+    (message: string, fields: LogFields = {}, pretty?: PrettyRenderer) =>
+      write(level, message, { ...bound, ...fields }, pretty);
+
+  return {
+    debug: at("debug"),
+    info: at("info"),
+    warn: at("warn"),
+    error: at("error"),
+    child: (fields) => createLogger({ ...bound, ...fields }),
+  };
+}
+
+export const logger = createLogger({});
@@ -0,0 +1,215 @@
+import { chains } from "../chains";
+
+// Prometheus metrics for the indexer, the analytics API and the WebSocket
+// server, rendered in the text exposition format by renderMetrics(). Ponder's
+// own metrics (sync progress, database, HTTP server) stay on its /metrics.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Series are keyed by their rendered label set
+abstract class Series<T> implements Metric {
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly type: "counter" | "gauge" | "histogram"
+  ) {
+    registry.push(this);
+  }
+
+  protected entry(labels: Labels, init: () => T): { labels: Labels; value: T } {
+    const key = formatLabels(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: init() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+}
+
+export class Counter extends Series<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  // For totals kept elsewhere, copied in at scrape time
+  set(labels: Labels, value: number) {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+export class Gauge extends Series<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number) {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  get(labels: Labels): number | undefined {
+    return this.series.get(formatLabels(labels))?.value;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+interface HistogramValue {
+  counts: number[]; // Per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Series<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: readonly number[]
+  ) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number) {
+    const entry = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index >= 0) entry.counts[index]!++;
+    entry.sum += value;
+    entry.count++;
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    this.buckets.forEach((bound, i) => {
+      cumulative += value.counts[i]!;
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+// Chain name for the `chain` label, falling back to the id
+export function chainLabel(chainId: number): string {
+  return chains.find((chain) => chain.id === chainId)?.name ?? String(chainId);
+}
+
+// ==============================================
+// INDEXER
+// ==============================================
+
+export const latestIndexedBlock = new Gauge("monad_indexer_latest_block", "Number of the latest indexed block");
+export const latestIndexedBlockTimestamp = new Gauge(
+  "monad_indexer_latest_block_timestamp_seconds",
+  "Timestamp of the latest indexed block"
+);
+export const chainHeadBlock = new Gauge("monad_indexer_chain_head_block", "Latest block reported by the chain's RPC");
+export const chainHeadLag = new Gauge(
+  "monad_indexer_chain_head_lag_blocks",
+  "Blocks between the chain head and the latest indexed block"
+);
+export const blocksProcessed = new Counter("monad_indexer_blocks_processed_total", "Blocks processed by the block handler");
+export const transactionsProcessed = new Counter(
+  "monad_indexer_transactions_processed_total",
+  "Transactions processed by the block handler"
+);
+export const transactionsClassified = new Counter(
+  "monad_indexer_transactions_classified_total",
+  "Transactions by classifier category"
+);
+
+export const alertsRaised = new Counter("monad_indexer_alerts_raised_total", "Alerts raised, by rule and severity");
+
+export const rpcRequestDuration = new Histogram(
+  "monad_indexer_rpc_request_duration_seconds",
+  "Latency of RPC calls made by the indexer",
+  [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+export const rpcErrors = new Counter("monad_indexer_rpc_errors_total", "Failed RPC calls made by the indexer");
+
+// Time an RPC call and count its failure
+export async function timeRpc<T>(chainId: number, method: string, call: () => Promise<T>): Promise<T> {
+  const labels = { chain: chainLabel(chainId), method };
+  const started = performance.now();
+  try {
+    return await call();
+  } catch (error) {
+    rpcErrors.inc(labels);
+    throw error;
+  } finally {
+    rpcRequestDuration.observe(labels, (performance.now() - started) / 1000);
+  }
+}
+
+// ==============================================
+// ANALYTICS API
+// ==============================================
+
+export const apiRequestDuration = new Histogram(
+  "monad_api_request_duration_seconds",
+  "Latency of analytics API routes",
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+);
+export const apiKeyRequests = new Counter("monad_api_key_requests_total", "Requests accepted per API key");
+export const apiKeyRateLimited = new Counter("monad_api_key_rate_limited_total", "Requests rejected with 429 per API key");
+
+// ==============================================
+// WEBSOCKET
+// ==============================================
+
+export const websocketClients = new Gauge("monad_websocket_clients", "Connected WebSocket clients");
+export const websocketQueuedMessages = new Gauge(
+  "monad_websocket_queued_messages",
+  "Messages waiting in client send queues"
+);
+export const websocketEventsBroadcast = new Counter(
+  "monad_websocket_events_broadcast_total",
+  "Events broadcast to WebSocket clients, by event type"
+);
+export const websocketDroppedMessages = new Counter(
+  "monad_websocket_dropped_messages_total",
+  "Messages dropped for slow WebSocket clients"
+);
+
+export function renderMetrics(): string {
+  return registry.flatMap((metric) => metric.render()).join("\n") + "\n";
+}
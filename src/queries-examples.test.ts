@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  decodeTransactionCursor,
+  encodeTransactionCursor,
+  planWindow,
+  splitRange,
+  type TransactionCursor,
+} from "./queries-examples";
+import { DAY_SECONDS, HOUR_SECONDS } from "./rollups";
+
+const BUCKETS = [DAY_SECONDS, HOUR_SECONDS] as const;
+const DAY = BigInt(DAY_SECONDS);
+const HOUR = BigInt(HOUR_SECONDS);
+
+describe("splitRange", () => {
+  it("uses the coarsest buckets in the middle and finer ones towards the edges", () => {
+    const from = 30n * 60n;
+    const to = 2n * DAY + HOUR + 30n * 60n;
+    expect(splitRange(from, to, BUCKETS)).toEqual([
+      { from, to: HOUR },
+      { bucketSeconds: HOUR_SECONDS, from: HOUR, to: DAY },
+      { bucketSeconds: DAY_SECONDS, from: DAY, to: 2n * DAY },
+      { bucketSeconds: HOUR_SECONDS, from: 2n * DAY, to: 2n * DAY + HOUR },
+      { from: 2n * DAY + HOUR, to },
+    ]);
+  });
+
+  it("skips bucket sizes that don't fit inside the range", () => {
+    expect(splitRange(HOUR, 3n * HOUR, BUCKETS)).toEqual([{ bucketSeconds: HOUR_SECONDS, from: HOUR, to: 3n * HOUR }]);
+  });
+
+  it("leaves open bounds open", () => {
+    expect(splitRange(undefined, undefined, BUCKETS)).toEqual([{ bucketSeconds: DAY_SECONDS }]);
+    expect(splitRange(undefined, DAY + HOUR, BUCKETS)).toEqual([
+      { bucketSeconds: DAY_SECONDS, to: DAY },
+      { bucketSeconds: HOUR_SECONDS, from: DAY, to: DAY + HOUR },
+    ]);
+  });
+
+  it("falls back to per-block rows without bucket sizes", () => {
+    expect(splitRange(10n, 20n, [])).toEqual([{ from: 10n, to: 20n }]);
+  });
+
+  it("returns nothing for an empty range", () => {
+    expect(splitRange(DAY, DAY, BUCKETS)).toEqual([]);
+    expect(splitRange(DAY, HOUR, BUCKETS)).toEqual([]);
+  });
+});
+
+describe("planWindow", () => {
+  it("treats the window's upper bound as inclusive", () => {
+    expect(planWindow({ label: "custom", from: 0n, to: DAY - 1n }, BUCKETS)).toEqual([
+      { bucketSeconds: DAY_SECONDS, from: 0n, to: DAY },
+    ]);
+  });
+
+  it("answers block bounds from per-block rows only", () => {
+    expect(planWindow({ label: "custom", from: 0n, to: DAY - 1n, fromBlock: 100n }, BUCKETS)).toEqual([
+      { from: 0n, to: DAY },
+    ]);
+  });
+
+  it("uses per-block rows for a window shorter than the smallest bucket", () => {
+    expect(planWindow({ label: "custom", from: 100n, to: 200n }, BUCKETS)).toEqual([{ from: 100n, to: 201n }]);
+  });
+
+  it("covers an unbounded window with the coarsest rollup", () => {
+    expect(planWindow({ label: "all" }, BUCKETS)).toEqual([{ bucketSeconds: DAY_SECONDS }]);
+  });
+});
+
+describe("transaction cursors", () => {
+  const token = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  it("round-trips a cursor", () => {
+    const cursor: TransactionCursor = {
+      blockNumber: 2n ** 64n + 1n,
+      transactionIndex: 7,
+      chainId: 10143,
+      direction: "prev",
+    };
+    const encoded = encodeTransactionCursor(cursor);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeTransactionCursor(encoded)).toEqual(cursor);
+  });
+
+  it("rejects malformed tokens", () => {
+    expect(decodeTransactionCursor("")).toBeNull();
+    expect(decodeTransactionCursor("not a cursor")).toBeNull();
+    expect(decodeTransactionCursor(token({ blockNumber: "1" }))).toBeNull();
+    expect(decodeTransactionCursor(token(["-1", 0, 1, "next"]))).toBeNull();
+    expect(decodeTransactionCursor(token([1, 0, 1, "next"]))).toBeNull();
+    expect(decodeTransactionCursor(token(["1", 0.5, 1, "next"]))).toBeNull();
+    expect(decodeTransactionCursor(token(["1", 0, "1", "next"]))).toBeNull();
+    expect(decodeTransactionCursor(token(["1", 0, 1, "sideways"]))).toBeNull();
+  });
+});
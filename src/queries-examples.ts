@@ -5,41 +5,365 @@ import {
   walletContractInteractions, 
   walletGasUsage, 
   monTransfers, 
-  monWalletActivity 
+  monWalletActivity,
+  tokens,
+  tokenTransfers,
+  tokenWalletActivity,
+  contractUsageHourly,
+  contractUsageDaily,
+  walletActivityDaily,
+  networkStatsHourly,
+  alerts
 } from "ponder:schema";
-import { sql, desc, asc, gte, and, eq, or } from "ponder";
+import type { db as ponderDb } from "ponder:api";
+import { sql, desc, asc, gt, gte, lt, lte, and, eq, or, unionAll } from "ponder";
+import { DAY_SECONDS, HOUR_SECONDS } from "./rollups";
 
-// Helper: Get timestamp for 24 hours ago
-const get24hAgo = () => BigInt(Math.floor(Date.now() / 1000) - 24 * 60 * 60);
-const get7dAgo = () => BigInt(Math.floor(Date.now() / 1000) - 7 * 24 * 60 * 60);
+// Ponder's read-only Drizzle database. Typing `db` as this (rather than any)
+// carries each query's selected fields through to its return type, which the
+// API response schemas are type-checked against.
+export type QueryDb = typeof ponderDb;
+
+// ==============================================
+// 🕒 QUERY WINDOWS
+// ==============================================
+
+// Preset look-back windows, in seconds (null = no lower bound)
+export const WINDOW_PRESETS = {
+  "1h": 60 * 60,
+  "24h": 24 * 60 * 60,
+  "7d": 7 * 24 * 60 * 60,
+  "30d": 30 * 24 * 60 * 60,
+  "all": null,
+} as const;
+
+export type WindowPreset = keyof typeof WINDOW_PRESETS;
+
+// Range a leaderboard is computed over. Timestamp bounds are unix seconds;
+// block bounds are inclusive. Any bound left undefined is open.
+export interface QueryWindow {
+  label: string; // Preset name, or "custom" for explicit bounds
+  from?: bigint;
+  to?: bigint;
+  fromBlock?: bigint;
+  toBlock?: bigint;
+}
+
+// Helper: Current unix timestamp in seconds
+const nowSeconds = () => BigInt(Math.floor(Date.now() / 1000));
+
+// Build a window ending now from a preset
+export function presetWindow(preset: WindowPreset): QueryWindow {
+  const seconds = WINDOW_PRESETS[preset];
+  const to = nowSeconds();
+  return seconds === null ? { label: preset, to } : { label: preset, from: to - BigInt(seconds), to };
+}
+
+// Helper: Conditions restricting a table to a window
+const inWindow = (timestampColumn: any, blockColumn: any, window: QueryWindow) =>
+  and(
+    window.from !== undefined ? gte(timestampColumn, window.from) : undefined,
+    window.to !== undefined ? lte(timestampColumn, window.to) : undefined,
+    window.fromBlock !== undefined ? gte(blockColumn, window.fromBlock) : undefined,
+    window.toBlock !== undefined ? lte(blockColumn, window.toBlock) : undefined
+  );
+
+// Helper: Restrict a query to one chain when a chain id is given (undefined = all chains)
+const onChain = (column: any, chainId?: number) =>
+  chainId === undefined ? undefined : eq(column, chainId);
+
+// ==============================================
+// 🧮 ROLLUP SOURCES
+// ==============================================
+
+// Part of a window answered by one table: rollup rows whose bucket starts in
+// [from, to), or per-block rows with a timestamp in [from, to). Undefined
+// bounds are open.
+export interface WindowSegment {
+  bucketSeconds?: number; // Undefined = per-block table
+  from?: bigint;
+  to?: bigint;
+}
+
+// Split [from, to) into the coarsest buckets that lie fully inside it, finer
+// buckets towards the edges and per-block rows for whatever is left
+export function splitRange(from: bigint | undefined, to: bigint | undefined, bucketSizes: readonly number[]): WindowSegment[] {
+  if (from !== undefined && to !== undefined && from >= to) return [];
+  const [seconds, ...finer] = bucketSizes;
+  if (seconds === undefined) return [{ from, to }];
+
+  const size = BigInt(seconds);
+  const start = from === undefined ? undefined : ((from + size - 1n) / size) * size;
+  const end = to === undefined ? undefined : (to / size) * size;
+  if (start !== undefined && end !== undefined && start >= end) return splitRange(from, to, finer);
+
+  return [
+    ...(start === undefined ? [] : splitRange(from, start, finer)),
+    { bucketSeconds: seconds, from: start, to: end },
+    ...(end === undefined ? [] : splitRange(end, to, finer)),
+  ];
+}
+
+// Plan a window over rollups of the given bucket sizes (coarsest first). Block
+// bounds can only be answered from per-block rows.
+export function planWindow(window: QueryWindow, bucketSizes: readonly number[]): WindowSegment[] {
+  const to = window.to === undefined ? undefined : window.to + 1n;
+  if (window.fromBlock !== undefined || window.toBlock !== undefined) {
+    return [{ from: window.from, to }];
+  }
+  const segments = splitRange(window.from, to, bucketSizes);
+  return segments.length > 0 ? segments : [{ from: window.from, to }];
+}
+
+// Helper: Conditions restricting a timestamp or bucket column to a segment
+const inSegment = (column: any, segment: WindowSegment) =>
+  and(
+    segment.from !== undefined ? gte(column, segment.from) : undefined,
+    segment.to !== undefined ? lt(column, segment.to) : undefined
+  );
+
+// Helper: Rollup sizes a time series can use; a bucket must not straddle two series points
+const rollupsFor = (intervalSeconds: number, bucketSizes: readonly number[]) =>
+  bucketSizes.filter((seconds) => intervalSeconds % seconds === 0);
+
+// Helper: UNION ALL of same-shaped segment queries
+function unionAllOf<Q>(queries: Q[]): Q {
+  const [first, second, ...rest] = queries as any[];
+  return (second === undefined ? first : unionAll(first, second, ...rest)) as Q;
+}
+
+// Per-contract transactions and gas: contract_usage_daily/_hourly for whole
+// days and hours of the window, contract_usage for the rest
+function contractActivity(db: QueryDb, window: QueryWindow, chainId?: number) {
+  const queries = planWindow(window, [DAY_SECONDS, HOUR_SECONDS]).map((segment) => {
+    if (segment.bucketSeconds === undefined) {
+      return db
+        .select({
+          contractAddress: sql<`0x${string}` | null>`${contractUsage.contractAddress}`.as("contract_address"),
+          transactionCount: sql<number>`${contractUsage.transactionCount}`.as("transaction_count"),
+          gasUsed: sql<bigint>`${contractUsage.gasUsed}`.as("gas_used"),
+          transactionType: sql<string>`${contractUsage.transactionType}`.as("transaction_type"),
+        })
+        .from(contractUsage)
+        .where(
+          and(
+            inWindow(contractUsage.blockTimestamp, contractUsage.blockNumber, window),
+            inSegment(contractUsage.blockTimestamp, segment),
+            onChain(contractUsage.chainId, chainId)
+          )
+        );
+    }
+    const rollup = segment.bucketSeconds === DAY_SECONDS ? contractUsageDaily : contractUsageHourly;
+    return db
+      .select({
+        contractAddress: sql<`0x${string}` | null>`${rollup.contractAddress}`.as("contract_address"),
+        transactionCount: sql<number>`${rollup.transactionCount}`.as("transaction_count"),
+        gasUsed: sql<bigint>`${rollup.gasUsed}`.as("gas_used"),
+        transactionType: sql<string>`${rollup.transactionType}`.as("transaction_type"),
+      })
+      .from(rollup)
+      .where(and(inSegment(rollup.bucket, segment), onChain(rollup.chainId, chainId)));
+  });
+  return unionAllOf(queries).as("contract_activity");
+}
+
+// Per-wallet gas spending: wallet_activity_daily for whole days, wallet_gas_usage for the rest
+function walletGasActivity(db: QueryDb, window: QueryWindow, chainId?: number, bucketSizes = [DAY_SECONDS]) {
+  const queries = planWindow(window, bucketSizes).map((segment) => {
+    if (segment.bucketSeconds === undefined) {
+      return db
+        .select({
+          timestamp: sql<bigint>`${walletGasUsage.blockTimestamp}`.as("timestamp"),
+          walletAddress: sql<`0x${string}` | null>`${walletGasUsage.walletAddress}`.as("wallet_address"),
+          totalGasUsed: sql<bigint>`${walletGasUsage.totalGasUsed}`.as("total_gas_used"),
+          transactionCount: sql<number>`${walletGasUsage.transactionCount}`.as("transaction_count"),
+          contractsInteracted: sql<number>`${walletGasUsage.contractsInteracted}`.as("contracts_interacted"),
+        })
+        .from(walletGasUsage)
+        .where(
+          and(
+            inWindow(walletGasUsage.blockTimestamp, walletGasUsage.blockNumber, window),
+            inSegment(walletGasUsage.blockTimestamp, segment),
+            onChain(walletGasUsage.chainId, chainId)
+          )
+        );
+    }
+    return db
+      .select({
+        timestamp: sql<bigint>`${walletActivityDaily.bucket}`.as("timestamp"),
+        walletAddress: sql<`0x${string}` | null>`${walletActivityDaily.walletAddress}`.as("wallet_address"),
+        totalGasUsed: sql<bigint>`${walletActivityDaily.totalGasUsed}`.as("total_gas_used"),
+        transactionCount: sql<number>`${walletActivityDaily.transactionCount}`.as("transaction_count"),
+        contractsInteracted: sql<number>`${walletActivityDaily.contractsInteracted}`.as("contracts_interacted"),
+      })
+      .from(walletActivityDaily)
+      .where(
+        and(
+          inSegment(walletActivityDaily.bucket, segment),
+          gt(walletActivityDaily.transactionCount, 0), // Skip wallets that only received MON
+          onChain(walletActivityDaily.chainId, chainId)
+        )
+      );
+  });
+  return unionAllOf(queries).as("wallet_gas_activity");
+}
+
+// Per-wallet MON flows: wallet_activity_daily for whole days, mon_wallet_activity for the rest
+function monWalletFlows(db: QueryDb, window: QueryWindow, chainId?: number) {
+  const queries = planWindow(window, [DAY_SECONDS]).map((segment) => {
+    if (segment.bucketSeconds === undefined) {
+      return db
+        .select({
+          walletAddress: sql<`0x${string}` | null>`${monWalletActivity.walletAddress}`.as("wallet_address"),
+          totalSent: sql<bigint>`${monWalletActivity.totalSent}`.as("total_sent"),
+          totalReceived: sql<bigint>`${monWalletActivity.totalReceived}`.as("total_received"),
+          transferCount: sql<number>`${monWalletActivity.transferCount}`.as("transfer_count"),
+          sentCount: sql<number>`${monWalletActivity.sentCount}`.as("sent_count"),
+          receivedCount: sql<number>`${monWalletActivity.receivedCount}`.as("received_count"),
+        })
+        .from(monWalletActivity)
+        .where(
+          and(
+            inWindow(monWalletActivity.blockTimestamp, monWalletActivity.blockNumber, window),
+            inSegment(monWalletActivity.blockTimestamp, segment),
+            onChain(monWalletActivity.chainId, chainId)
+          )
+        );
+    }
+    return db
+      .select({
+        walletAddress: sql<`0x${string}` | null>`${walletActivityDaily.walletAddress}`.as("wallet_address"),
+        totalSent: sql<bigint>`${walletActivityDaily.totalSent}`.as("total_sent"),
+        totalReceived: sql<bigint>`${walletActivityDaily.totalReceived}`.as("total_received"),
+        transferCount: sql<number>`${walletActivityDaily.transferCount}`.as("transfer_count"),
+        sentCount: sql<number>`${walletActivityDaily.sentCount}`.as("sent_count"),
+        receivedCount: sql<number>`${walletActivityDaily.receivedCount}`.as("received_count"),
+      })
+      .from(walletActivityDaily)
+      .where(
+        and(
+          inSegment(walletActivityDaily.bucket, segment),
+          gt(walletActivityDaily.transferCount, 0), // Skip wallets without MON transfers
+          onChain(walletActivityDaily.chainId, chainId)
+        )
+      );
+  });
+  return unionAllOf(queries).as("mon_wallet_flows");
+}
+
+// Block totals: network_stats_hourly for whole hours, blocks for the rest
+function blockTotals(db: QueryDb, window: QueryWindow, chainId?: number, bucketSizes = [HOUR_SECONDS]) {
+  const queries = planWindow(window, bucketSizes).map((segment) => {
+    if (segment.bucketSeconds === undefined) {
+      return db
+        .select({
+          timestamp: sql<bigint>`${blocks.timestamp}`.as("timestamp"),
+          blockCount: sql<number>`1`.as("block_count"),
+          transactionCount: sql<number>`${blocks.transactionCount}`.as("transaction_count"),
+          gasUsed: sql<bigint>`${blocks.gasUsed}`.as("gas_used"),
+          gasLimit: sql<bigint>`${blocks.gasLimit}`.as("gas_limit"),
+          transferCount: sql<number>`${blocks.transferCount}`.as("transfer_count"),
+          swapCount: sql<number>`${blocks.swapCount}`.as("swap_count"),
+          mintCount: sql<number>`${blocks.mintCount}`.as("mint_count"),
+          burnCount: sql<number>`${blocks.burnCount}`.as("burn_count"),
+          stakeCount: sql<number>`${blocks.stakeCount}`.as("stake_count"),
+          otherCount: sql<number>`${blocks.otherCount}`.as("other_count"),
+          typeCounts: sql<Record<string, number> | null>`${blocks.typeCounts}`.as("type_counts"),
+        })
+        .from(blocks)
+        .where(
+          and(
+            inWindow(blocks.timestamp, blocks.number, window),
+            inSegment(blocks.timestamp, segment),
+            onChain(blocks.chainId, chainId)
+          )
+        );
+    }
+    return db
+      .select({
+        timestamp: sql<bigint>`${networkStatsHourly.bucket}`.as("timestamp"),
+        blockCount: sql<number>`${networkStatsHourly.blockCount}`.as("block_count"),
+        transactionCount: sql<number>`${networkStatsHourly.transactionCount}`.as("transaction_count"),
+        gasUsed: sql<bigint>`${networkStatsHourly.gasUsed}`.as("gas_used"),
+        gasLimit: sql<bigint>`${networkStatsHourly.gasLimit}`.as("gas_limit"),
+        transferCount: sql<number>`${networkStatsHourly.transferCount}`.as("transfer_count"),
+        swapCount: sql<number>`${networkStatsHourly.swapCount}`.as("swap_count"),
+        mintCount: sql<number>`${networkStatsHourly.mintCount}`.as("mint_count"),
+        burnCount: sql<number>`${networkStatsHourly.burnCount}`.as("burn_count"),
+        stakeCount: sql<number>`${networkStatsHourly.stakeCount}`.as("stake_count"),
+        otherCount: sql<number>`${networkStatsHourly.otherCount}`.as("other_count"),
+        typeCounts: sql<Record<string, number> | null>`${networkStatsHourly.typeCounts}`.as("type_counts"),
+      })
+      .from(networkStatsHourly)
+      .where(and(inSegment(networkStatsHourly.bucket, segment), onChain(networkStatsHourly.chainId, chainId)));
+  });
+  return unionAllOf(queries).as("block_totals");
+}
+
+type BlockTotals = ReturnType<typeof blockTotals>;
+
+// Helper: One (key, value) row per category in each block total's type_counts,
+// to join against so every registry category can be summed, not just the core counters
+const typeCountEntries = (totals: BlockTotals) =>
+  sql`jsonb_each_text(coalesce(${totals.typeCounts}::jsonb, '{}'::jsonb)) as type_count`;
+
+const typeCountKey = sql<string>`type_count.key`;
+const typeCountSum = sql<number>`sum(type_count.value::integer)`;
+
+// MON transfer counts and volume: network_stats_hourly for whole hours, mon_transfers for the rest
+function monTransferTotals(db: QueryDb, window: QueryWindow, chainId?: number, bucketSizes = [HOUR_SECONDS]) {
+  const queries = planWindow(window, bucketSizes).map((segment) => {
+    if (segment.bucketSeconds === undefined) {
+      return db
+        .select({
+          timestamp: sql<bigint>`${monTransfers.blockTimestamp}`.as("timestamp"),
+          transferCount: sql<number>`1`.as("transfer_count"),
+          volume: sql<bigint>`${monTransfers.amount}`.as("volume"),
+        })
+        .from(monTransfers)
+        .where(
+          and(
+            inWindow(monTransfers.blockTimestamp, monTransfers.blockNumber, window),
+            inSegment(monTransfers.blockTimestamp, segment),
+            onChain(monTransfers.chainId, chainId)
+          )
+        );
+    }
+    return db
+      .select({
+        timestamp: sql<bigint>`${networkStatsHourly.bucket}`.as("timestamp"),
+        transferCount: sql<number>`${networkStatsHourly.monTransferCount}`.as("transfer_count"),
+        volume: sql<bigint>`${networkStatsHourly.monVolume}`.as("volume"),
+      })
+      .from(networkStatsHourly)
+      .where(and(inSegment(networkStatsHourly.bucket, segment), onChain(networkStatsHourly.chainId, chainId)));
+  });
+  return unionAllOf(queries).as("mon_transfer_totals");
+}
 
 // ==============================================
 // 🏗️ CONTRACT ANALYTICS
 // ==============================================
 
-// 1. 📊 Most Used Contracts (24h) with Unique Wallet Count
-export async function getMostUsedContracts24h(db: any, limit = 10) {
-  const oneDayAgo = get24hAgo();
-  
+// 1. 📊 Most Used Contracts with Unique Wallet Count
+export async function getMostUsedContracts(db: QueryDb, window: QueryWindow, limit = 10, chainId?: number) {
+  const activity = contractActivity(db, window, chainId);
   return await db
     .select({
-      contractAddress: contractUsage.contractAddress,
-      totalTransactions: sql<number>`sum(${contractUsage.transactionCount})`,
-      totalGasUsed: sql<bigint>`sum(${contractUsage.gasUsed})`,
-      avgGasPerTx: sql<bigint>`sum(${contractUsage.gasUsed}) / sum(${contractUsage.transactionCount})`,
-      primaryTransactionType: sql<string>`mode() within group (order by ${contractUsage.transactionType})`,
+      contractAddress: activity.contractAddress,
+      totalTransactions: sql<number>`sum(${activity.transactionCount})`,
+      totalGasUsed: sql<bigint>`sum(${activity.gasUsed})`,
+      avgGasPerTx: sql<bigint>`sum(${activity.gasUsed}) / sum(${activity.transactionCount})`,
+      primaryTransactionType: sql<string>`mode() within group (order by ${activity.transactionType})`,
     })
-    .from(contractUsage)
-    .where(gte(contractUsage.blockTimestamp, oneDayAgo))
-    .groupBy(contractUsage.contractAddress)
-    .orderBy(desc(sql`sum(${contractUsage.transactionCount})`))
+    .from(activity)
+    .groupBy(activity.contractAddress)
+    .orderBy(desc(sql`sum(${activity.transactionCount})`))
     .limit(limit);
 }
 
-// 2. 👥 Most Popular Contracts by Unique Wallets (24h)
-export async function getMostPopularContractsByWallets24h(db: any, limit = 10) {
-  const oneDayAgo = get24hAgo();
-  
+// 2. 👥 Most Popular Contracts by Unique Wallets
+export async function getMostPopularContractsByWallets(db: QueryDb, window: QueryWindow, limit = 10, chainId?: number) {
   return await db
     .select({
       contractAddress: walletContractInteractions.contractAddress,
@@ -50,49 +374,44 @@ export async function getMostPopularContractsByWallets24h(db: any, limit = 10) {
       avgGasPerWallet: sql<bigint>`sum(${walletContractInteractions.gasUsed}) / count(distinct ${walletContractInteractions.walletAddress})`,
     })
     .from(walletContractInteractions)
-    .where(gte(walletContractInteractions.blockTimestamp, oneDayAgo))
+    .where(and(inWindow(walletContractInteractions.blockTimestamp, walletContractInteractions.blockNumber, window), onChain(walletContractInteractions.chainId, chainId)))
     .groupBy(walletContractInteractions.contractAddress)
     .orderBy(desc(sql`count(distinct ${walletContractInteractions.walletAddress})`))
     .limit(limit);
 }
 
-// 3. ⛽ Top Gas-Consuming Contracts (24h)
-export async function getTopGasContracts24h(db: any, limit = 10) {
-  const oneDayAgo = get24hAgo();
-  
+// 3. ⛽ Top Gas-Consuming Contracts
+export async function getTopGasContracts(db: QueryDb, window: QueryWindow, limit = 10, chainId?: number) {
+  const activity = contractActivity(db, window, chainId);
+  const totals = blockTotals(db, window, chainId);
   return await db
     .select({
-      contractAddress: contractUsage.contractAddress,
-      totalGasUsed: sql<bigint>`sum(${contractUsage.gasUsed})`,
-      totalTransactions: sql<number>`sum(${contractUsage.transactionCount})`,
-      avgGasPerTx: sql<bigint>`sum(${contractUsage.gasUsed}) / sum(${contractUsage.transactionCount})`,
-      gasPercentOfTotal: sql<number>`(sum(${contractUsage.gasUsed})::float / (
-        SELECT sum(${blocks.gasUsed}) FROM ${blocks} WHERE ${blocks.timestamp} >= ${oneDayAgo}
-      )) * 100`,
+      contractAddress: activity.contractAddress,
+      totalGasUsed: sql<bigint>`sum(${activity.gasUsed})`,
+      totalTransactions: sql<number>`sum(${activity.transactionCount})`,
+      avgGasPerTx: sql<bigint>`sum(${activity.gasUsed}) / sum(${activity.transactionCount})`,
+      gasPercentOfTotal: sql<number>`(sum(${activity.gasUsed})::float / (SELECT sum(${totals.gasUsed}) FROM ${totals})) * 100`,
     })
-    .from(contractUsage)
-    .where(gte(contractUsage.blockTimestamp, oneDayAgo))
-    .groupBy(contractUsage.contractAddress)
-    .orderBy(desc(sql`sum(${contractUsage.gasUsed})`))
+    .from(activity)
+    .groupBy(activity.contractAddress)
+    .orderBy(desc(sql`sum(${activity.gasUsed})`))
     .limit(limit);
 }
 
-// 4. 🔧 Most Gas-Efficient Contracts (24h)
-export async function getMostEfficientContracts24h(db: any, minTxs = 100, limit = 10) {
-  const oneDayAgo = get24hAgo();
-  
+// 4. 🔧 Most Gas-Efficient Contracts
+export async function getMostEfficientContracts(db: QueryDb, window: QueryWindow, minTxs = 100, limit = 10, chainId?: number) {
+  const activity = contractActivity(db, window, chainId);
   return await db
     .select({
-      contractAddress: contractUsage.contractAddress,
-      avgGasPerTx: sql<bigint>`sum(${contractUsage.gasUsed}) / sum(${contractUsage.transactionCount})`,
-      totalTransactions: sql<number>`sum(${contractUsage.transactionCount})`,
-      totalGasUsed: sql<bigint>`sum(${contractUsage.gasUsed})`,
+      contractAddress: activity.contractAddress,
+      avgGasPerTx: sql<bigint>`sum(${activity.gasUsed}) / sum(${activity.transactionCount})`,
+      totalTransactions: sql<number>`sum(${activity.transactionCount})`,
+      totalGasUsed: sql<bigint>`sum(${activity.gasUsed})`,
     })
-    .from(contractUsage)
-    .where(gte(contractUsage.blockTimestamp, oneDayAgo))
-    .groupBy(contractUsage.contractAddress)
-    .having(sql`sum(${contractUsage.transactionCount}) >= ${minTxs}`)
-    .orderBy(asc(sql`sum(${contractUsage.gasUsed}) / sum(${contractUsage.transactionCount})`))
+    .from(activity)
+    .groupBy(activity.contractAddress)
+    .having(sql`sum(${activity.transactionCount}) >= ${minTxs}`)
+    .orderBy(asc(sql`sum(${activity.gasUsed}) / sum(${activity.transactionCount})`))
     .limit(limit);
 }
 
@@ -100,44 +419,39 @@ export async function getMostEfficientContracts24h(db: any, minTxs = 100, limit
 // 👛 WALLET ANALYTICS
 // ==============================================
 
-// 5. ⛽ Top Gas-Spending Wallets (24h)
-export async function getTopGasWallets24h(db: any, limit = 10) {
-  const oneDayAgo = get24hAgo();
-  
+// 5. ⛽ Top Gas-Spending Wallets
+export async function getTopGasWallets(db: QueryDb, window: QueryWindow, limit = 10, chainId?: number) {
+  const activity = walletGasActivity(db, window, chainId);
+  const totals = blockTotals(db, window, chainId);
   return await db
     .select({
-      walletAddress: walletGasUsage.walletAddress,
-      totalGasUsed: sql<bigint>`sum(${walletGasUsage.totalGasUsed})`,
-      totalTransactions: sql<number>`sum(${walletGasUsage.transactionCount})`,
-      avgGasPerTx: sql<bigint>`sum(${walletGasUsage.totalGasUsed}) / sum(${walletGasUsage.transactionCount})`,
-      uniqueContracts: sql<number>`sum(${walletGasUsage.contractsInteracted})`,
-      gasPercentOfTotal: sql<number>`(sum(${walletGasUsage.totalGasUsed})::float / (
-        SELECT sum(${blocks.gasUsed}) FROM ${blocks} WHERE ${blocks.timestamp} >= ${oneDayAgo}
-      )) * 100`,
+      walletAddress: activity.walletAddress,
+      totalGasUsed: sql<bigint>`sum(${activity.totalGasUsed})`,
+      totalTransactions: sql<number>`sum(${activity.transactionCount})`,
+      avgGasPerTx: sql<bigint>`sum(${activity.totalGasUsed}) / sum(${activity.transactionCount})`,
+      uniqueContracts: sql<number>`sum(${activity.contractsInteracted})`,
+      gasPercentOfTotal: sql<number>`(sum(${activity.totalGasUsed})::float / (SELECT sum(${totals.gasUsed}) FROM ${totals})) * 100`,
     })
-    .from(walletGasUsage)
-    .where(gte(walletGasUsage.blockTimestamp, oneDayAgo))
-    .groupBy(walletGasUsage.walletAddress)
-    .orderBy(desc(sql`sum(${walletGasUsage.totalGasUsed})`))
+    .from(activity)
+    .groupBy(activity.walletAddress)
+    .orderBy(desc(sql`sum(${activity.totalGasUsed})`))
     .limit(limit);
 }
 
-// 6. 🔗 Most Active Wallets by Contract Interactions (24h)
-export async function getMostActiveWallets24h(db: any, limit = 10) {
-  const oneDayAgo = get24hAgo();
-  
+// 6. 🔗 Most Active Wallets by Contract Interactions
+export async function getMostActiveWallets(db: QueryDb, window: QueryWindow, limit = 10, chainId?: number) {
+  const activity = walletGasActivity(db, window, chainId);
   return await db
     .select({
-      walletAddress: walletGasUsage.walletAddress,
-      uniqueContracts: sql<number>`sum(${walletGasUsage.contractsInteracted})`,
-      totalTransactions: sql<number>`sum(${walletGasUsage.transactionCount})`,
-      totalGasUsed: sql<bigint>`sum(${walletGasUsage.totalGasUsed})`,
-      avgTxPerContract: sql<number>`sum(${walletGasUsage.transactionCount})::float / sum(${walletGasUsage.contractsInteracted})`,
+      walletAddress: activity.walletAddress,
+      uniqueContracts: sql<number>`sum(${activity.contractsInteracted})`,
+      totalTransactions: sql<number>`sum(${activity.transactionCount})`,
+      totalGasUsed: sql<bigint>`sum(${activity.totalGasUsed})`,
+      avgTxPerContract: sql<number>`sum(${activity.transactionCount})::float / sum(${activity.contractsInteracted})`,
     })
-    .from(walletGasUsage)
-    .where(gte(walletGasUsage.blockTimestamp, oneDayAgo))
-    .groupBy(walletGasUsage.walletAddress)
-    .orderBy(desc(sql`sum(${walletGasUsage.contractsInteracted})`))
+    .from(activity)
+    .groupBy(activity.walletAddress)
+    .orderBy(desc(sql`sum(${activity.contractsInteracted})`))
     .limit(limit);
 }
 
@@ -145,52 +459,46 @@ export async function getMostActiveWallets24h(db: any, limit = 10) {
 // 💰 MON TOKEN ANALYTICS
 // ==============================================
 
-// 7. 📤 Top MON Senders (24h)
-export async function getTopMonSenders24h(db: any, limit = 10) {
-  const oneDayAgo = get24hAgo();
-  
+// 7. 📤 Top MON Senders
+export async function getTopMonSenders(db: QueryDb, window: QueryWindow, limit = 10, chainId?: number) {
+  const flows = monWalletFlows(db, window, chainId);
   return await db
     .select({
-      walletAddress: monWalletActivity.walletAddress,
-      totalSent: sql<bigint>`sum(${monWalletActivity.totalSent})`,
-      totalReceived: sql<bigint>`sum(${monWalletActivity.totalReceived})`,
-      netFlow: sql<bigint>`sum(${monWalletActivity.totalSent}) - sum(${monWalletActivity.totalReceived})`,
-      sentCount: sql<number>`sum(${monWalletActivity.sentCount})`,
-      receivedCount: sql<number>`sum(${monWalletActivity.receivedCount})`,
-      avgSentPerTx: sql<bigint>`sum(${monWalletActivity.totalSent}) / sum(${monWalletActivity.sentCount})`,
+      walletAddress: flows.walletAddress,
+      totalSent: sql<bigint>`sum(${flows.totalSent})`,
+      totalReceived: sql<bigint>`sum(${flows.totalReceived})`,
+      netFlow: sql<bigint>`sum(${flows.totalSent}) - sum(${flows.totalReceived})`,
+      sentCount: sql<number>`sum(${flows.sentCount})`,
+      receivedCount: sql<number>`sum(${flows.receivedCount})`,
+      avgSentPerTx: sql<bigint>`sum(${flows.totalSent}) / sum(${flows.sentCount})`,
     })
-    .from(monWalletActivity)
-    .where(gte(monWalletActivity.blockTimestamp, oneDayAgo))
-    .groupBy(monWalletActivity.walletAddress)
-    .orderBy(desc(sql`sum(${monWalletActivity.totalSent})`))
+    .from(flows)
+    .groupBy(flows.walletAddress)
+    .orderBy(desc(sql`sum(${flows.totalSent})`))
     .limit(limit);
 }
 
-// 8. 📥 Top MON Receivers (24h)
-export async function getTopMonReceivers24h(db: any, limit = 10) {
-  const oneDayAgo = get24hAgo();
-  
+// 8. 📥 Top MON Receivers
+export async function getTopMonReceivers(db: QueryDb, window: QueryWindow, limit = 10, chainId?: number) {
+  const flows = monWalletFlows(db, window, chainId);
   return await db
     .select({
-      walletAddress: monWalletActivity.walletAddress,
-      totalReceived: sql<bigint>`sum(${monWalletActivity.totalReceived})`,
-      totalSent: sql<bigint>`sum(${monWalletActivity.totalSent})`,
-      netFlow: sql<bigint>`sum(${monWalletActivity.totalReceived}) - sum(${monWalletActivity.totalSent})`,
-      receivedCount: sql<number>`sum(${monWalletActivity.receivedCount})`,
-      sentCount: sql<number>`sum(${monWalletActivity.sentCount})`,
-      avgReceivedPerTx: sql<bigint>`sum(${monWalletActivity.totalReceived}) / sum(${monWalletActivity.receivedCount})`,
+      walletAddress: flows.walletAddress,
+      totalReceived: sql<bigint>`sum(${flows.totalReceived})`,
+      totalSent: sql<bigint>`sum(${flows.totalSent})`,
+      netFlow: sql<bigint>`sum(${flows.totalReceived}) - sum(${flows.totalSent})`,
+      receivedCount: sql<number>`sum(${flows.receivedCount})`,
+      sentCount: sql<number>`sum(${flows.sentCount})`,
+      avgReceivedPerTx: sql<bigint>`sum(${flows.totalReceived}) / sum(${flows.receivedCount})`,
     })
-    .from(monWalletActivity)
-    .where(gte(monWalletActivity.blockTimestamp, oneDayAgo))
-    .groupBy(monWalletActivity.walletAddress)
-    .orderBy(desc(sql`sum(${monWalletActivity.totalReceived})`))
+    .from(flows)
+    .groupBy(flows.walletAddress)
+    .orderBy(desc(sql`sum(${flows.totalReceived})`))
     .limit(limit);
 }
 
-// 9. 💎 Largest Single MON Transfers (24h)
-export async function getLargestMonTransfers24h(db: any, limit = 20) {
-  const oneDayAgo = get24hAgo();
-  
+// 9. 💎 Largest Single MON Transfers
+export async function getLargestMonTransfers(db: QueryDb, window: QueryWindow, limit = 20, chainId?: number) {
   return await db
     .select({
       transactionHash: monTransfers.transactionHash,
@@ -203,29 +511,27 @@ export async function getLargestMonTransfers24h(db: any, limit = 20) {
       blockTimestamp: monTransfers.blockTimestamp,
     })
     .from(monTransfers)
-    .where(gte(monTransfers.blockTimestamp, oneDayAgo))
+    .where(and(inWindow(monTransfers.blockTimestamp, monTransfers.blockNumber, window), onChain(monTransfers.chainId, chainId)))
     .orderBy(desc(monTransfers.amount))
     .limit(limit);
 }
 
-// 10. 🔄 Most Active MON Traders by Volume (24h)
-export async function getMostActiveMonTraders24h(db: any, limit = 10) {
-  const oneDayAgo = get24hAgo();
-  
+// 10. 🔄 Most Active MON Traders by Volume
+export async function getMostActiveMonTraders(db: QueryDb, window: QueryWindow, limit = 10, chainId?: number) {
+  const flows = monWalletFlows(db, window, chainId);
   return await db
     .select({
-      walletAddress: monWalletActivity.walletAddress,
-      totalVolume: sql<bigint>`sum(${monWalletActivity.totalSent}) + sum(${monWalletActivity.totalReceived})`,
-      totalTransfers: sql<number>`sum(${monWalletActivity.transferCount})`,
-      avgTransferSize: sql<bigint>`(sum(${monWalletActivity.totalSent}) + sum(${monWalletActivity.totalReceived})) / sum(${monWalletActivity.transferCount})`,
-      sentReceiveRatio: sql<number>`sum(${monWalletActivity.totalSent})::float / sum(${monWalletActivity.totalReceived})`,
-      totalSent: sql<bigint>`sum(${monWalletActivity.totalSent})`,
-      totalReceived: sql<bigint>`sum(${monWalletActivity.totalReceived})`,
+      walletAddress: flows.walletAddress,
+      totalVolume: sql<bigint>`sum(${flows.totalSent}) + sum(${flows.totalReceived})`,
+      totalTransfers: sql<number>`sum(${flows.transferCount})`,
+      avgTransferSize: sql<bigint>`(sum(${flows.totalSent}) + sum(${flows.totalReceived})) / sum(${flows.transferCount})`,
+      sentReceiveRatio: sql<number>`sum(${flows.totalSent})::float / sum(${flows.totalReceived})`,
+      totalSent: sql<bigint>`sum(${flows.totalSent})`,
+      totalReceived: sql<bigint>`sum(${flows.totalReceived})`,
     })
-    .from(monWalletActivity)
-    .where(gte(monWalletActivity.blockTimestamp, oneDayAgo))
-    .groupBy(monWalletActivity.walletAddress)
-    .orderBy(desc(sql`sum(${monWalletActivity.totalSent}) + sum(${monWalletActivity.totalReceived})`))
+    .from(flows)
+    .groupBy(flows.walletAddress)
+    .orderBy(desc(sql`sum(${flows.totalSent}) + sum(${flows.totalReceived})`))
     .limit(limit);
 }
 
@@ -233,72 +539,94 @@ export async function getMostActiveMonTraders24h(db: any, limit = 10) {
 // 📊 NETWORK ANALYTICS
 // ==============================================
 
-// 11. 🌐 Network Overview (24h)
-export async function getNetworkOverview24h(db: any) {
-  const oneDayAgo = get24hAgo();
-  
+// 11. 🌐 Network Overview
+export async function getNetworkOverview(db: QueryDb, window: QueryWindow, chainId?: number) {
+  const totals = blockTotals(db, window, chainId);
   const blockStats = await db
     .select({
-      totalBlocks: sql<number>`count(*)`,
-      totalTransactions: sql<number>`sum(${blocks.transactionCount})`,
-      totalGasUsed: sql<bigint>`sum(${blocks.gasUsed})`,
-      avgGasPerBlock: sql<bigint>`sum(${blocks.gasUsed}) / count(*)`,
-      avgTxPerBlock: sql<number>`sum(${blocks.transactionCount}) / count(*)`,
-      avgGasUtilization: sql<number>`(sum(${blocks.gasUsed})::float / sum(${blocks.gasLimit})) * 100`,
+      totalBlocks: sql<number>`sum(${totals.blockCount})`,
+      totalTransactions: sql<number>`sum(${totals.transactionCount})`,
+      totalGasUsed: sql<bigint>`sum(${totals.gasUsed})`,
+      avgGasPerBlock: sql<bigint>`sum(${totals.gasUsed}) / sum(${totals.blockCount})`,
+      avgTxPerBlock: sql<number>`sum(${totals.transactionCount}) / sum(${totals.blockCount})`,
+      avgGasUtilization: sql<number>`(sum(${totals.gasUsed})::float / sum(${totals.gasLimit})) * 100`,
     })
-    .from(blocks)
-    .where(gte(blocks.timestamp, oneDayAgo));
+    .from(totals);
 
+  const activity = contractActivity(db, window, chainId);
   const contractStats = await db
     .select({
-      uniqueContracts: sql<number>`count(distinct ${contractUsage.contractAddress})`,
-      totalContractTxs: sql<number>`sum(${contractUsage.transactionCount})`,
+      uniqueContracts: sql<number>`count(distinct ${activity.contractAddress})`,
+      totalContractTxs: sql<number>`sum(${activity.transactionCount})`,
     })
-    .from(contractUsage)
-    .where(gte(contractUsage.blockTimestamp, oneDayAgo));
+    .from(activity);
 
+  const wallets = walletGasActivity(db, window, chainId);
   const walletStats = await db
     .select({
-      uniqueWallets: sql<number>`count(distinct ${walletGasUsage.walletAddress})`,
-      totalWalletTxs: sql<number>`sum(${walletGasUsage.transactionCount})`,
+      uniqueWallets: sql<number>`count(distinct ${wallets.walletAddress})`,
+      totalWalletTxs: sql<number>`sum(${wallets.transactionCount})`,
     })
-    .from(walletGasUsage)
-    .where(gte(walletGasUsage.blockTimestamp, oneDayAgo));
+    .from(wallets);
 
-  const monStats = await db
+  const transfers = monTransferTotals(db, window, chainId);
+  const monTotals = await db
     .select({
-      totalMonTransfers: sql<number>`count(*)`,
-      totalMonVolume: sql<bigint>`sum(${monTransfers.amount})`,
-      uniqueMonSenders: sql<number>`count(distinct ${monTransfers.fromAddress})`,
-      uniqueMonReceivers: sql<number>`count(distinct ${monTransfers.toAddress})`,
+      totalMonTransfers: sql<number>`sum(${transfers.transferCount})`,
+      totalMonVolume: sql<bigint>`sum(${transfers.volume})`,
     })
-    .from(monTransfers)
-    .where(gte(monTransfers.blockTimestamp, oneDayAgo));
+    .from(transfers);
+
+  const flows = monWalletFlows(db, window, chainId);
+  const monWallets = await db
+    .select({
+      uniqueMonSenders: sql<number>`count(distinct ${flows.walletAddress}) filter (where ${flows.sentCount} > 0)`,
+      uniqueMonReceivers: sql<number>`count(distinct ${flows.walletAddress}) filter (where ${flows.receivedCount} > 0)`,
+    })
+    .from(flows);
 
   return {
-    blocks: blockStats[0],
-    contracts: contractStats[0],
-    wallets: walletStats[0],
-    mon: monStats[0],
+    blocks: blockStats[0] ?? null,
+    contracts: contractStats[0] ?? null,
+    wallets: walletStats[0] ?? null,
+    mon: monTotals[0] && monWallets[0] ? { ...monTotals[0], ...monWallets[0] } : null,
   };
 }
 
-// 12. 📈 Transaction Type Breakdown (24h)
-export async function getTransactionTypeBreakdown24h(db: any) {
-  const oneDayAgo = get24hAgo();
-  
-  return await db
+// 12. 📈 Transaction Type Breakdown: the core counters, plus `types` with a
+// count for every classifier category (these add up to totalTransactions)
+export async function getTransactionTypeBreakdown(db: QueryDb, window: QueryWindow, chainId?: number) {
+  const totals = blockTotals(db, window, chainId);
+  const typeRows = await db
+    .select({ type: typeCountKey, count: typeCountSum })
+    .from(totals)
+    .innerJoin(typeCountEntries(totals), sql`true`)
+    .groupBy(typeCountKey);
+  const types = Object.fromEntries(typeRows.map((row) => [row.type, Number(row.count)]));
+
+  const rows = await db
     .select({
-      transferCount: sql<number>`sum(${blocks.transferCount})`,
-      swapCount: sql<number>`sum(${blocks.swapCount})`,
-      mintCount: sql<number>`sum(${blocks.mintCount})`,
-      burnCount: sql<number>`sum(${blocks.burnCount})`,
-      stakeCount: sql<number>`sum(${blocks.stakeCount})`,
-      otherCount: sql<number>`sum(${blocks.otherCount})`,
-      totalTransactions: sql<number>`sum(${blocks.transactionCount})`,
+      transferCount: sql<number>`sum(${totals.transferCount})`,
+      swapCount: sql<number>`sum(${totals.swapCount})`,
+      mintCount: sql<number>`sum(${totals.mintCount})`,
+      burnCount: sql<number>`sum(${totals.burnCount})`,
+      stakeCount: sql<number>`sum(${totals.stakeCount})`,
+      otherCount: sql<number>`sum(${totals.otherCount})`,
+      totalTransactions: sql<number>`sum(${totals.transactionCount})`,
     })
+    .from(totals);
+  return rows.map((row) => ({ ...row, types }));
+}
+
+// Latest indexed block of a chain, or null before the first block
+export async function getIndexedHead(db: QueryDb, chainId: number) {
+  const [head] = await db
+    .select({ number: blocks.number, hash: blocks.hash })
     .from(blocks)
-    .where(gte(blocks.timestamp, oneDayAgo));
+    .where(eq(blocks.chainId, chainId))
+    .orderBy(desc(blocks.number))
+    .limit(1);
+  return head ?? null;
 }
 
 // ==============================================
@@ -306,7 +634,7 @@ export async function getTransactionTypeBreakdown24h(db: any) {
 // ==============================================
 
 // 13. Get Contract Details
-export async function getContractDetails(db: any, contractAddress: string, days = 7) {
+export async function getContractDetails(db: QueryDb, contractAddress: string, days = 7, chainId?: number) {
   const daysAgo = BigInt(Math.floor(Date.now() / 1000) - days * 24 * 60 * 60);
   
   const usage = await db
@@ -320,7 +648,8 @@ export async function getContractDetails(db: any, contractAddress: string, days
     .where(
       and(
         eq(contractUsage.contractAddress, contractAddress as `0x${string}`),
-        gte(contractUsage.blockTimestamp, daysAgo)
+        gte(contractUsage.blockTimestamp, daysAgo),
+        onChain(contractUsage.chainId, chainId)
       )
     )
     .groupBy(contractUsage.contractAddress);
@@ -334,18 +663,19 @@ export async function getContractDetails(db: any, contractAddress: string, days
     .where(
       and(
         eq(walletContractInteractions.contractAddress, contractAddress as `0x${string}`),
-        gte(walletContractInteractions.blockTimestamp, daysAgo)
+        gte(walletContractInteractions.blockTimestamp, daysAgo),
+        onChain(walletContractInteractions.chainId, chainId)
       )
     );
 
   return {
-    usage: usage[0],
-    interactions: walletInteractions[0],
+    usage: usage[0] ?? null,
+    interactions: walletInteractions[0] ?? null,
   };
 }
 
 // 14. Get Wallet Details  
-export async function getWalletDetails(db: any, walletAddress: string, days = 7) {
+export async function getWalletDetails(db: QueryDb, walletAddress: string, days = 7, chainId?: number) {
   const daysAgo = BigInt(Math.floor(Date.now() / 1000) - days * 24 * 60 * 60);
   
   const gasUsage = await db
@@ -358,7 +688,8 @@ export async function getWalletDetails(db: any, walletAddress: string, days = 7)
     .where(
       and(
         eq(walletGasUsage.walletAddress, walletAddress as `0x${string}`),
-        gte(walletGasUsage.blockTimestamp, daysAgo)
+        gte(walletGasUsage.blockTimestamp, daysAgo),
+        onChain(walletGasUsage.chainId, chainId)
       )
     );
 
@@ -372,13 +703,14 @@ export async function getWalletDetails(db: any, walletAddress: string, days = 7)
     .where(
       and(
         eq(monWalletActivity.walletAddress, walletAddress as `0x${string}`),
-        gte(monWalletActivity.blockTimestamp, daysAgo)
+        gte(monWalletActivity.blockTimestamp, daysAgo),
+        onChain(monWalletActivity.chainId, chainId)
       )
     );
 
   return {
-    gas: gasUsage[0],
-    mon: monActivity[0],
+    gas: gasUsage[0] ?? null,
+    mon: monActivity[0] ?? null,
   };
 }
 
@@ -386,34 +718,155 @@ export async function getWalletDetails(db: any, walletAddress: string, days = 7)
 // 💳 INDIVIDUAL TRANSACTION QUERIES
 // ==============================================
 
+// Hard cap on page size for transaction list queries
+export const MAX_TRANSACTION_PAGE_SIZE = 500;
+
+// Position in the (blockNumber, transactionIndex, chainId) ordering. `next` pages
+// continue towards older transactions, `prev` pages towards newer ones.
+export interface TransactionCursor {
+  blockNumber: bigint;
+  transactionIndex: number;
+  chainId: number;
+  direction: "next" | "prev";
+}
+
+export interface TransactionListOptions {
+  limit: number;
+  cursor?: TransactionCursor;
+  minValue?: bigint; // wei, inclusive
+  maxValue?: bigint; // wei, inclusive
+  success?: boolean;
+  methodSignature?: string;
+}
+
+// Encode a cursor as an opaque URL-safe token
+export function encodeTransactionCursor(cursor: TransactionCursor): string {
+  return Buffer.from(
+    JSON.stringify([cursor.blockNumber.toString(), cursor.transactionIndex, cursor.chainId, cursor.direction])
+  ).toString("base64url");
+}
+
+// Decode a cursor token, returning null when it is malformed
+export function decodeTransactionCursor(token: string): TransactionCursor | null {
+  try {
+    const [blockNumber, transactionIndex, chainId, direction] = JSON.parse(
+      Buffer.from(token, "base64url").toString("utf8")
+    );
+    if (
+      typeof blockNumber !== "string" || !/^\d+$/.test(blockNumber) ||
+      !Number.isInteger(transactionIndex) ||
+      !Number.isInteger(chainId) ||
+      (direction !== "next" && direction !== "prev")
+    ) {
+      return null;
+    }
+    return { blockNumber: BigInt(blockNumber), transactionIndex, chainId, direction };
+  } catch {
+    return null;
+  }
+}
+
+// Columns every transaction list returns (the cursor is built from the first three)
+const transactionListFields = {
+  blockNumber: transactions.blockNumber,
+  transactionIndex: transactions.transactionIndex,
+  chainId: transactions.chainId,
+  hash: transactions.hash,
+  blockTimestamp: transactions.blockTimestamp,
+  fromAddress: transactions.fromAddress,
+  value: transactions.value,
+  valueInMon: sql<number>`${transactions.value}::float / 1e18`,
+  gasUsed: transactions.gasUsed,
+  transactionType: transactions.transactionType,
+  methodSignature: transactions.methodSignature,
+};
+
+// Helper: Filters, ordering and page size for a newest-first transaction list
+// with keyset pagination. Callers run the select themselves, so each keeps its
+// own row type, and pass the rows back through `toPage`.
+function transactionPage(baseCondition: ReturnType<typeof and>, options: TransactionListOptions, chainId?: number) {
+  const { cursor } = options;
+  const limit = Math.min(Math.max(options.limit, 1), MAX_TRANSACTION_PAGE_SIZE);
+  const position = sql`(${transactions.blockNumber}, ${transactions.transactionIndex}, ${transactions.chainId})`;
+  const backwards = cursor?.direction === "prev";
+
+  const where = and(
+    baseCondition,
+    onChain(transactions.chainId, chainId),
+    options.minValue !== undefined ? gte(transactions.value, options.minValue) : undefined,
+    options.maxValue !== undefined ? lte(transactions.value, options.maxValue) : undefined,
+    options.success !== undefined ? eq(transactions.success, options.success) : undefined,
+    options.methodSignature !== undefined
+      ? eq(transactions.methodSignature, options.methodSignature.toLowerCase())
+      : undefined,
+    cursor
+      ? backwards
+        ? sql`${position} > (${cursor.blockNumber}, ${cursor.transactionIndex}, ${cursor.chainId})`
+        : sql`${position} < (${cursor.blockNumber}, ${cursor.transactionIndex}, ${cursor.chainId})`
+      : undefined
+  );
+
+  const orderBy = backwards
+    ? [asc(transactions.blockNumber), asc(transactions.transactionIndex), asc(transactions.chainId)]
+    : [desc(transactions.blockNumber), desc(transactions.transactionIndex), desc(transactions.chainId)];
+
+  function toPage<Row extends { blockNumber: bigint | null; transactionIndex: number | null; chainId: number }>(
+    rows: Row[]
+  ) {
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit);
+    if (backwards) items.reverse();
+
+    const first = items[0];
+    const last = items[items.length - 1];
+    const toCursor = (row: Row, direction: "next" | "prev") =>
+      encodeTransactionCursor({
+        blockNumber: row.blockNumber ?? 0n,
+        transactionIndex: row.transactionIndex ?? 0,
+        chainId: row.chainId,
+        direction,
+      });
+
+    // Older rows exist if this page was cut short, or if we paged backwards into it
+    const hasOlder = backwards ? cursor !== undefined : hasMore;
+    // Newer rows exist if we paged forwards into this page, or a backwards page was cut short
+    const hasNewer = backwards ? hasMore : cursor !== undefined;
+
+    return {
+      items,
+      nextCursor: last && hasOlder ? toCursor(last, "next") : null,
+      prevCursor: first && hasNewer ? toCursor(first, "prev") : null,
+    };
+  }
+
+  // One extra row tells toPage whether another page follows
+  return { where, orderBy, limit: limit + 1, toPage };
+}
+
 // 15. Get Recent Transactions (for Transaction Log)
-export async function getRecentTransactions(db: any, limit = 50) {
-  return await db
+export async function getRecentTransactions(db: QueryDb, options: TransactionListOptions, chainId?: number) {
+  const page = transactionPage(undefined, options, chainId);
+  const rows = await db
     .select({
-      hash: transactions.hash,
-      blockNumber: transactions.blockNumber,
-      blockTimestamp: transactions.blockTimestamp,
-      transactionIndex: transactions.transactionIndex,
-      fromAddress: transactions.fromAddress,
+      ...transactionListFields,
       toAddress: transactions.toAddress,
-      value: transactions.value,
-      valueInMon: sql<number>`${transactions.value}::float / 1e18`,
-      gasUsed: transactions.gasUsed,
       gasPrice: transactions.gasPrice,
-      transactionType: transactions.transactionType,
-      methodSignature: transactions.methodSignature,
       success: transactions.success,
       contractAddress: transactions.contractAddress,
     })
     .from(transactions)
-    .orderBy(desc(transactions.blockTimestamp), desc(transactions.transactionIndex))
-    .limit(limit);
+    .where(page.where)
+    .orderBy(...page.orderBy)
+    .limit(page.limit);
+
+  return page.toPage(rows);
 }
 
 // 16. Get Transactions by Block Number
-export async function getTransactionsByBlock(db: any, blockNumber: bigint) {
+export async function getTransactionsByBlock(db: QueryDb, blockNumber: bigint, chainId?: number) {
   return await db
     .select({
+      chainId: transactions.chainId,
       hash: transactions.hash,
       transactionIndex: transactions.transactionIndex,
       fromAddress: transactions.fromAddress,
@@ -428,49 +881,51 @@ export async function getTransactionsByBlock(db: any, blockNumber: bigint) {
       contractAddress: transactions.contractAddress,
     })
     .from(transactions)
-    .where(eq(transactions.blockNumber, blockNumber))
+    .where(and(eq(transactions.blockNumber, blockNumber), onChain(transactions.chainId, chainId)))
     .orderBy(asc(transactions.transactionIndex));
 }
 
 // 17. Get Transactions by Wallet Address
-export async function getTransactionsByWallet(db: any, walletAddress: string, limit = 50) {
-  return await db
+export async function getTransactionsByWallet(
+  db: QueryDb,
+  walletAddress: string,
+  options: TransactionListOptions & { direction?: "in" | "out" },
+  chainId?: number
+) {
+  // Addresses are stored lowercase; the CASE below compares the raw parameter
+  const wallet = walletAddress.toLowerCase() as `0x${string}`;
+  const walletCondition =
+    options.direction === "in" ? eq(transactions.toAddress, wallet)
+    : options.direction === "out" ? eq(transactions.fromAddress, wallet)
+    : or(eq(transactions.fromAddress, wallet), eq(transactions.toAddress, wallet));
+
+  const page = transactionPage(walletCondition, options, chainId);
+  const rows = await db
     .select({
-      hash: transactions.hash,
-      blockNumber: transactions.blockNumber,
-      blockTimestamp: transactions.blockTimestamp,
-      transactionIndex: transactions.transactionIndex,
-      fromAddress: transactions.fromAddress,
+      ...transactionListFields,
       toAddress: transactions.toAddress,
-      value: transactions.value,
-      valueInMon: sql<number>`${transactions.value}::float / 1e18`,
-      gasUsed: transactions.gasUsed,
       gasPrice: transactions.gasPrice,
-      transactionType: transactions.transactionType,
-      methodSignature: transactions.methodSignature,
       success: transactions.success,
       contractAddress: transactions.contractAddress,
       direction: sql<string>`CASE 
-        WHEN ${transactions.fromAddress} = ${walletAddress} THEN 'sent'
-        WHEN ${transactions.toAddress} = ${walletAddress} THEN 'received'
+        WHEN ${transactions.fromAddress} = ${wallet} THEN 'sent'
+        WHEN ${transactions.toAddress} = ${wallet} THEN 'received'
         ELSE 'unknown'
       END`,
     })
     .from(transactions)
-    .where(
-      or(
-        eq(transactions.fromAddress, walletAddress as `0x${string}`),
-        eq(transactions.toAddress, walletAddress as `0x${string}`)
-      )
-    )
-    .orderBy(desc(transactions.blockTimestamp), desc(transactions.transactionIndex))
-    .limit(limit);
+    .where(page.where)
+    .orderBy(...page.orderBy)
+    .limit(page.limit);
+
+  return page.toPage(rows);
 }
 
 // 18. Get Transaction by Hash
-export async function getTransactionByHash(db: any, hash: string) {
+export async function getTransactionByHash(db: QueryDb, hash: string, chainId?: number) {
   const result = await db
     .select({
+      chainId: transactions.chainId,
       hash: transactions.hash,
       blockNumber: transactions.blockNumber,
       blockTimestamp: transactions.blockTimestamp,
@@ -490,50 +945,332 @@ export async function getTransactionByHash(db: any, hash: string) {
       contractAddress: transactions.contractAddress,
     })
     .from(transactions)
-    .where(eq(transactions.hash, hash as `0x${string}`))
+    .where(and(eq(transactions.hash, hash as `0x${string}`), onChain(transactions.chainId, chainId)))
     .limit(1);
     
   return result[0] || null;
 }
 
 // 19. Get Transactions by Type
-export async function getTransactionsByType(db: any, txType: string, limit = 50) {
-  return await db
+export async function getTransactionsByType(db: QueryDb, txType: string, options: TransactionListOptions, chainId?: number) {
+  const page = transactionPage(eq(transactions.transactionType, txType), options, chainId);
+  const rows = await db
     .select({
-      hash: transactions.hash,
-      blockNumber: transactions.blockNumber,
-      blockTimestamp: transactions.blockTimestamp,
-      fromAddress: transactions.fromAddress,
+      ...transactionListFields,
       toAddress: transactions.toAddress,
-      value: transactions.value,
-      valueInMon: sql<number>`${transactions.value}::float / 1e18`,
-      gasUsed: transactions.gasUsed,
-      transactionType: transactions.transactionType,
-      methodSignature: transactions.methodSignature,
+      success: transactions.success,
       contractAddress: transactions.contractAddress,
     })
     .from(transactions)
-    .where(eq(transactions.transactionType, txType))
-    .orderBy(desc(transactions.blockTimestamp), desc(transactions.transactionIndex))
-    .limit(limit);
+    .where(page.where)
+    .orderBy(...page.orderBy)
+    .limit(page.limit);
+
+  return page.toPage(rows);
 }
 
 // 20. Get Transactions by Contract Address
-export async function getTransactionsByContract(db: any, contractAddress: string, limit = 50) {
+export async function getTransactionsByContract(
+  db: QueryDb,
+  contractAddress: string,
+  options: TransactionListOptions,
+  chainId?: number
+) {
+  const page = transactionPage(eq(transactions.contractAddress, contractAddress as `0x${string}`), options, chainId);
+  const rows = await db
+    .select({ ...transactionListFields, success: transactions.success })
+    .from(transactions)
+    .where(page.where)
+    .orderBy(...page.orderBy)
+    .limit(page.limit);
+
+  return page.toPage(rows);
+}
+
+// ==============================================
+// 🪙 ERC-20 TOKEN ANALYTICS
+// ==============================================
+
+// 21. 📊 Top Tokens by Transfer Volume
+export async function getTopTokensByVolume(db: QueryDb, window: QueryWindow, limit = 10, chainId?: number) {
   return await db
     .select({
-      hash: transactions.hash,
-      blockNumber: transactions.blockNumber,
-      blockTimestamp: transactions.blockTimestamp,
-      fromAddress: transactions.fromAddress,
-      value: transactions.value,
-      valueInMon: sql<number>`${transactions.value}::float / 1e18`,
-      gasUsed: transactions.gasUsed,
-      transactionType: transactions.transactionType,
-      methodSignature: transactions.methodSignature,
+      tokenAddress: tokenTransfers.tokenAddress,
+      name: tokens.name,
+      symbol: tokens.symbol,
+      decimals: tokens.decimals,
+      totalTransfers: sql<number>`count(*)`,
+      totalVolume: sql<bigint>`sum(${tokenTransfers.amount})`,
+      uniqueSenders: sql<number>`count(distinct ${tokenTransfers.fromAddress})`,
+      uniqueReceivers: sql<number>`count(distinct ${tokenTransfers.toAddress})`,
     })
-    .from(transactions)
-    .where(eq(transactions.contractAddress, contractAddress as `0x${string}`))
-    .orderBy(desc(transactions.blockTimestamp), desc(transactions.transactionIndex))
+    .from(tokenTransfers)
+    .leftJoin(
+      tokens,
+      and(eq(tokens.address, tokenTransfers.tokenAddress), eq(tokens.chainId, tokenTransfers.chainId))
+    )
+    .where(and(inWindow(tokenTransfers.blockTimestamp, tokenTransfers.blockNumber, window), onChain(tokenTransfers.chainId, chainId)))
+    .groupBy(tokenTransfers.tokenAddress, tokens.name, tokens.symbol, tokens.decimals)
+    .orderBy(desc(sql`count(*)`))
     .limit(limit);
-} 
\ No newline at end of file
+}
+
+// 22. 👥 Most Active Holders of a Token
+export async function getTokenHoldersByActivity(db: QueryDb, tokenAddress: string, window: QueryWindow, limit = 10, chainId?: number) {
+  return await db
+    .select({
+      walletAddress: tokenWalletActivity.walletAddress,
+      totalTransfers: sql<number>`sum(${tokenWalletActivity.transferCount})`,
+      totalSent: sql<bigint>`sum(${tokenWalletActivity.totalSent})`,
+      totalReceived: sql<bigint>`sum(${tokenWalletActivity.totalReceived})`,
+      netFlow: sql<bigint>`sum(${tokenWalletActivity.totalReceived}) - sum(${tokenWalletActivity.totalSent})`,
+      sentCount: sql<number>`sum(${tokenWalletActivity.sentCount})`,
+      receivedCount: sql<number>`sum(${tokenWalletActivity.receivedCount})`,
+    })
+    .from(tokenWalletActivity)
+    .where(
+      and(
+        eq(tokenWalletActivity.tokenAddress, tokenAddress as `0x${string}`),
+        inWindow(tokenWalletActivity.blockTimestamp, tokenWalletActivity.blockNumber, window),
+        onChain(tokenWalletActivity.chainId, chainId)
+      )
+    )
+    .groupBy(tokenWalletActivity.walletAddress)
+    .orderBy(desc(sql`sum(${tokenWalletActivity.transferCount})`))
+    .limit(limit);
+}
+
+// 23. Get Token Metadata
+export async function getTokenByAddress(db: QueryDb, tokenAddress: string, chainId?: number) {
+  const result = await db
+    .select({
+      address: tokens.address,
+      name: tokens.name,
+      symbol: tokens.symbol,
+      decimals: tokens.decimals,
+    })
+    .from(tokens)
+    .where(and(eq(tokens.address, tokenAddress as `0x${string}`), onChain(tokens.chainId, chainId)))
+    .limit(1);
+
+  return result[0] || null;
+}
+
+// ==============================================
+// 📈 TIME SERIES
+// ==============================================
+
+// Supported bucket sizes, in seconds
+export const TIMESERIES_INTERVALS = {
+  "1m": 60,
+  "5m": 5 * 60,
+  "1h": 60 * 60,
+  "1d": 24 * 60 * 60,
+} as const;
+
+export type TimeSeriesInterval = keyof typeof TIMESERIES_INTERVALS;
+
+export const TIMESERIES_METRICS = [
+  "transactions",
+  "gas-used",
+  "gas-utilization",
+  "unique-wallets",
+  "mon-volume",
+  "transaction-types",
+] as const;
+
+export type TimeSeriesMetric = (typeof TIMESERIES_METRICS)[number];
+
+// Upper bound on buckets per request so a 1m series can't span a year
+export const TIMESERIES_MAX_BUCKETS = 1000;
+
+// Helper: Bucket start (unix seconds) for a timestamp column. Timestamps are
+// numeric, so the division needs floor() to truncate. The interval is inlined
+// rather than bound so SELECT and GROUP BY render the same expression.
+const bucketOf = (column: any, intervalSeconds: number) => {
+  const interval = sql.raw(String(Math.floor(intervalSeconds)));
+  return sql<string>`floor(${column} / ${interval}) * ${interval}`;
+};
+
+// Helper: Expand sparse grouped rows into one entry per bucket, zero-filling gaps
+function zeroFill<T extends Record<string, number | string>>(
+  rows: ({ bucket: string | number } & Partial<T>)[],
+  from: bigint,
+  to: bigint,
+  intervalSeconds: number,
+  empty: T
+): ({ bucket: number } & T)[] {
+  const byBucket = new Map(rows.map((row) => [Number(row.bucket), row]));
+  const interval = BigInt(intervalSeconds);
+  const series: ({ bucket: number } & T)[] = [];
+
+  for (let bucket = (from / interval) * interval; bucket <= to; bucket += interval) {
+    const row = byBucket.get(Number(bucket));
+    const values = { ...empty };
+    if (row) {
+      for (const key of Object.keys(empty) as (keyof T)[]) {
+        const value = row[key];
+        if (value !== undefined && value !== null) {
+          values[key] = (typeof empty[key] === "number" ? Number(value) : String(value)) as T[keyof T];
+        }
+      }
+    }
+    series.push({ bucket: Number(bucket), ...values });
+  }
+
+  return series;
+}
+
+// 24. 📈 Time Series for a Metric
+export async function getTimeSeries(
+  db: QueryDb,
+  metric: TimeSeriesMetric,
+  from: bigint,
+  to: bigint,
+  intervalSeconds: number,
+  chainId?: number
+) {
+  const window: QueryWindow = { label: "custom", from, to };
+
+  switch (metric) {
+    case "transactions":
+    case "gas-used":
+    case "gas-utilization": {
+      const totals = blockTotals(db, window, chainId, rollupsFor(intervalSeconds, [HOUR_SECONDS]));
+      const bucket = bucketOf(totals.timestamp, intervalSeconds);
+      const rows = await db
+        .select({
+          bucket,
+          transactions: sql<number>`sum(${totals.transactionCount})`,
+          blocks: sql<number>`sum(${totals.blockCount})`,
+          gasUsed: sql<number>`sum(${totals.gasUsed})`,
+          gasUtilization: sql<number>`(sum(${totals.gasUsed})::float / nullif(sum(${totals.gasLimit}), 0)) * 100`,
+        })
+        .from(totals)
+        .groupBy(bucket)
+        .orderBy(asc(bucket));
+
+      if (metric === "transactions") {
+        return zeroFill(rows, from, to, intervalSeconds, { transactions: 0, blocks: 0 });
+      }
+      if (metric === "gas-used") {
+        return zeroFill(rows, from, to, intervalSeconds, { gasUsed: 0, blocks: 0 });
+      }
+      return zeroFill(rows, from, to, intervalSeconds, { gasUtilization: 0, blocks: 0 });
+    }
+
+    case "unique-wallets": {
+      const wallets = walletGasActivity(db, window, chainId, rollupsFor(intervalSeconds, [DAY_SECONDS]));
+      const bucket = bucketOf(wallets.timestamp, intervalSeconds);
+      const rows = await db
+        .select({
+          bucket,
+          uniqueWallets: sql<number>`count(distinct ${wallets.walletAddress})`,
+        })
+        .from(wallets)
+        .groupBy(bucket)
+        .orderBy(asc(bucket));
+
+      return zeroFill(rows, from, to, intervalSeconds, { uniqueWallets: 0 });
+    }
+
+    case "mon-volume": {
+      const transfers = monTransferTotals(db, window, chainId, rollupsFor(intervalSeconds, [HOUR_SECONDS]));
+      const bucket = bucketOf(transfers.timestamp, intervalSeconds);
+      const rows = await db
+        .select({
+          bucket,
+          volume: sql<string>`sum(${transfers.volume})::text`, // wei, may exceed Number precision
+          transfers: sql<number>`sum(${transfers.transferCount})`,
+        })
+        .from(transfers)
+        .groupBy(bucket)
+        .orderBy(asc(bucket));
+
+      return zeroFill(rows, from, to, intervalSeconds, { volume: "0", transfers: 0 });
+    }
+
+    case "transaction-types": {
+      const totals = blockTotals(db, window, chainId, rollupsFor(intervalSeconds, [HOUR_SECONDS]));
+      const bucket = bucketOf(totals.timestamp, intervalSeconds);
+      const rows = await db
+        .select({
+          bucket,
+          transferCount: sql<number>`sum(${totals.transferCount})`,
+          swapCount: sql<number>`sum(${totals.swapCount})`,
+          mintCount: sql<number>`sum(${totals.mintCount})`,
+          burnCount: sql<number>`sum(${totals.burnCount})`,
+          stakeCount: sql<number>`sum(${totals.stakeCount})`,
+          otherCount: sql<number>`sum(${totals.otherCount})`,
+        })
+        .from(totals)
+        .groupBy(bucket)
+        .orderBy(asc(bucket));
+
+      // Every classifier category per bucket, from the type_counts json
+      const typeRows = await db
+        .select({ bucket, type: typeCountKey, count: typeCountSum })
+        .from(totals)
+        .innerJoin(typeCountEntries(totals), sql`true`)
+        .groupBy(bucket, typeCountKey);
+      const typesByBucket = new Map<number, Record<string, number>>();
+      for (const row of typeRows) {
+        const types = typesByBucket.get(Number(row.bucket)) ?? {};
+        types[row.type] = Number(row.count);
+        typesByBucket.set(Number(row.bucket), types);
+      }
+
+      return zeroFill(rows, from, to, intervalSeconds, {
+        transferCount: 0,
+        swapCount: 0,
+        mintCount: 0,
+        burnCount: 0,
+        stakeCount: 0,
+        otherCount: 0,
+      }).map((point) => ({ ...point, types: typesByBucket.get(point.bucket) ?? {} }));
+    }
+  }
+}
+
+// ==============================================
+// 🚨 ALERTS
+// ==============================================
+
+export interface AlertListOptions {
+  limit: number;
+  ruleId?: string;
+  kind?: string;
+  severity?: string;
+  address?: string; // Wallet or contract the alert is about
+}
+
+// 25. 🚨 Alerts raised by the alert rules, newest first
+export async function getAlerts(db: QueryDb, window: QueryWindow, options: AlertListOptions, chainId?: number) {
+  return await db
+    .select({
+      id: alerts.id,
+      chainId: alerts.chainId,
+      ruleId: alerts.ruleId,
+      kind: alerts.kind,
+      severity: alerts.severity,
+      blockNumber: alerts.blockNumber,
+      blockTimestamp: alerts.blockTimestamp,
+      address: alerts.address,
+      transactionHash: alerts.transactionHash,
+      message: alerts.message,
+      details: alerts.details,
+    })
+    .from(alerts)
+    .where(
+      and(
+        inWindow(alerts.blockTimestamp, alerts.blockNumber, window),
+        onChain(alerts.chainId, chainId),
+        options.ruleId !== undefined ? eq(alerts.ruleId, options.ruleId) : undefined,
+        options.kind !== undefined ? eq(alerts.kind, options.kind) : undefined,
+        options.severity !== undefined ? eq(alerts.severity, options.severity) : undefined,
+        options.address !== undefined ? eq(alerts.address, options.address as `0x${string}`) : undefined
+      )
+    )
+    .orderBy(desc(alerts.blockNumber), asc(alerts.id))
+    .limit(options.limit);
+}
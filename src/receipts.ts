@@ -0,0 +1,78 @@
+import type { Context } from "ponder:registry";
+import {
+  BaseError,
+  MethodNotFoundRpcError,
+  MethodNotSupportedRpcError,
+  formatTransactionReceipt,
+  numberToHex,
+  type Hash,
+  type TransactionReceipt,
+} from "viem";
+import { logger } from "./logger";
+import { timeRpc } from "./metrics";
+
+type BlockClient = Context<"monadBlocks:block">["client"];
+
+// Whether each chain's RPC supports eth_getBlockReceipts (unknown until the first call)
+const blockReceiptsSupport = new Map<number, boolean>();
+
+// The RPC does not implement the method at all, as opposed to failing this call
+function isMethodUnsupported(error: unknown): boolean {
+  if (!(error instanceof BaseError)) return false;
+  return !!error.walk(
+    (cause) =>
+      cause instanceof MethodNotFoundRpcError ||
+      cause instanceof MethodNotSupportedRpcError ||
+      (cause as { code?: unknown }).code === MethodNotFoundRpcError.code
+  );
+}
+
+// Fetch all receipts for a block, keyed by transaction hash.
+// Uses a single eth_getBlockReceipts call where the RPC supports it and
+// falls back to one eth_getTransactionReceipt call per transaction otherwise.
+export async function fetchBlockReceipts(
+  client: BlockClient,
+  chainId: number,
+  blockNumber: bigint,
+  transactionHashes: Hash[]
+): Promise<Map<Hash, TransactionReceipt>> {
+  const receipts = new Map<Hash, TransactionReceipt>();
+  if (transactionHashes.length === 0) return receipts;
+
+  const blockReceiptsSupported = blockReceiptsSupport.get(chainId);
+  if (blockReceiptsSupported !== false) {
+    try {
+      const rpcReceipts = await timeRpc(chainId, "eth_getBlockReceipts", () =>
+        client.request({ method: "eth_getBlockReceipts", params: [numberToHex(blockNumber)] })
+      );
+
+      if (rpcReceipts) {
+        blockReceiptsSupport.set(chainId, true);
+        for (const rpcReceipt of rpcReceipts) {
+          const receipt = formatTransactionReceipt(rpcReceipt);
+          receipts.set(receipt.transactionHash, receipt);
+        }
+        return receipts;
+      }
+    } catch (error) {
+      // Timeouts and server errors fail the block, which Ponder retries; only
+      // an RPC without the method gets per-transaction receipts from now on
+      if (blockReceiptsSupported === undefined && isMethodUnsupported(error)) {
+        blockReceiptsSupport.set(chainId, false);
+        logger.warn("eth_getBlockReceipts unavailable, falling back to per-transaction receipts", { chainId });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  const fetched = await Promise.all(
+    transactionHashes.map((hash) =>
+      timeRpc(chainId, "eth_getTransactionReceipt", () => client.getTransactionReceipt({ hash }))
+    )
+  );
+  for (const receipt of fetched) {
+    receipts.set(receipt.transactionHash, receipt);
+  }
+  return receipts;
+}
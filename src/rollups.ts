@@ -0,0 +1,159 @@
+import type { Context } from "ponder:registry";
+import {
+  contractUsageDaily,
+  contractUsageHourly,
+  networkStatsHourly,
+  walletActivityDaily,
+} from "ponder:schema";
+
+type BlockContext = Context<"monadBlocks:block">;
+
+export const HOUR_SECONDS = 60 * 60;
+export const DAY_SECONDS = 24 * 60 * 60;
+
+// One block's aggregates, as built by the block handler in index.ts
+export interface BlockRollupInput {
+  chainId: number;
+  timestamp: bigint;
+  transactionCount: number;
+  gasUsed: bigint;
+  gasLimit: bigint;
+  typeCounts: Record<string, number>;
+  monTransferCount: number;
+  monVolume: bigint;
+  contracts: Map<`0x${string}`, { transactionCount: number; gasUsed: bigint; typeCounts: Map<string, number> }>;
+  wallets: Map<`0x${string}`, { totalGasUsed: bigint; transactionCount: number; contracts: Set<string> }>;
+  monWallets: Map<
+    `0x${string}`,
+    { totalSent: bigint; totalReceived: bigint; sentCount: number; receivedCount: number }
+  >;
+}
+
+// Most frequent transaction type within an aggregate
+export function dominantType(typeCounts: Map<string, number>): string {
+  let best = "other";
+  let bestCount = 0;
+  typeCounts.forEach((count, type) => {
+    if (count > bestCount) {
+      best = type;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+export function bucketOf(timestamp: bigint, seconds: number): bigint {
+  const size = BigInt(seconds);
+  return (timestamp / size) * size;
+}
+
+function addCounts(into: Record<string, number> | null, counts: Iterable<[string, number]>): Record<string, number> {
+  const merged = { ...into };
+  for (const [type, count] of counts) {
+    merged[type] = (merged[type] ?? 0) + count;
+  }
+  return merged;
+}
+
+// Add one block's aggregates to the hourly and daily rollups. Rows are read
+// back and merged one at a time; Ponder reverts them like any other write when
+// the block is reorged out.
+export async function updateRollups(context: BlockContext, input: BlockRollupInput) {
+  const { chainId, timestamp } = input;
+  const hour = bucketOf(timestamp, HOUR_SECONDS);
+  const day = bucketOf(timestamp, DAY_SECONDS);
+
+  await context.db
+    .insert(networkStatsHourly)
+    .values({
+      chainId,
+      bucket: hour,
+      blockCount: 1,
+      transactionCount: input.transactionCount,
+      gasUsed: input.gasUsed,
+      gasLimit: input.gasLimit,
+      transferCount: input.typeCounts.transfer ?? 0,
+      swapCount: input.typeCounts.swap ?? 0,
+      mintCount: input.typeCounts.mint ?? 0,
+      burnCount: input.typeCounts.burn ?? 0,
+      stakeCount: input.typeCounts.stake ?? 0,
+      otherCount: input.typeCounts.other ?? 0,
+      typeCounts: input.typeCounts,
+      monTransferCount: input.monTransferCount,
+      monVolume: input.monVolume,
+    })
+    .onConflictDoUpdate((row) => ({
+      blockCount: (row.blockCount ?? 0) + 1,
+      transactionCount: (row.transactionCount ?? 0) + input.transactionCount,
+      gasUsed: (row.gasUsed ?? 0n) + input.gasUsed,
+      gasLimit: (row.gasLimit ?? 0n) + input.gasLimit,
+      transferCount: (row.transferCount ?? 0) + (input.typeCounts.transfer ?? 0),
+      swapCount: (row.swapCount ?? 0) + (input.typeCounts.swap ?? 0),
+      mintCount: (row.mintCount ?? 0) + (input.typeCounts.mint ?? 0),
+      burnCount: (row.burnCount ?? 0) + (input.typeCounts.burn ?? 0),
+      stakeCount: (row.stakeCount ?? 0) + (input.typeCounts.stake ?? 0),
+      otherCount: (row.otherCount ?? 0) + (input.typeCounts.other ?? 0),
+      typeCounts: addCounts(row.typeCounts, Object.entries(input.typeCounts)),
+      monTransferCount: (row.monTransferCount ?? 0) + input.monTransferCount,
+      monVolume: (row.monVolume ?? 0n) + input.monVolume,
+    }));
+
+  for (const [table, bucket] of [
+    [contractUsageHourly, hour],
+    [contractUsageDaily, day],
+  ] as const) {
+    for (const [address, agg] of input.contracts) {
+      await context.db
+        .insert(table)
+        .values({
+          id: `${chainId}-${bucket}-${address}`,
+          chainId,
+          bucket,
+          contractAddress: address,
+          transactionCount: agg.transactionCount,
+          gasUsed: agg.gasUsed,
+          typeCounts: Object.fromEntries(agg.typeCounts),
+          transactionType: dominantType(agg.typeCounts),
+        })
+        .onConflictDoUpdate((row) => {
+          const typeCounts = addCounts(row.typeCounts, agg.typeCounts);
+          return {
+            transactionCount: (row.transactionCount ?? 0) + agg.transactionCount,
+            gasUsed: (row.gasUsed ?? 0n) + agg.gasUsed,
+            typeCounts,
+            transactionType: dominantType(new Map(Object.entries(typeCounts))),
+          };
+        });
+    }
+  }
+
+  // Senders and MON receivers; a wallet can be either or both
+  const walletAddresses = new Set([...input.wallets.keys(), ...input.monWallets.keys()]);
+  for (const address of walletAddresses) {
+    const gas = input.wallets.get(address);
+    const mon = input.monWallets.get(address);
+    const values = {
+      totalGasUsed: gas?.totalGasUsed ?? 0n,
+      transactionCount: gas?.transactionCount ?? 0,
+      contractsInteracted: gas?.contracts.size ?? 0,
+      totalSent: mon?.totalSent ?? 0n,
+      totalReceived: mon?.totalReceived ?? 0n,
+      transferCount: (mon?.sentCount ?? 0) + (mon?.receivedCount ?? 0),
+      sentCount: mon?.sentCount ?? 0,
+      receivedCount: mon?.receivedCount ?? 0,
+    };
+    await context.db
+      .insert(walletActivityDaily)
+      .values({ id: `${chainId}-${day}-${address}`, chainId, bucket: day, walletAddress: address, ...values })
+      .onConflictDoUpdate((row) => ({
+        totalGasUsed: (row.totalGasUsed ?? 0n) + values.totalGasUsed,
+        transactionCount: (row.transactionCount ?? 0) + values.transactionCount,
+        contractsInteracted: (row.contractsInteracted ?? 0) + values.contractsInteracted,
+        totalSent: (row.totalSent ?? 0n) + values.totalSent,
+        totalReceived: (row.totalReceived ?? 0n) + values.totalReceived,
+        transferCount: (row.transferCount ?? 0) + values.transferCount,
+        sentCount: (row.sentCount ?? 0) + values.sentCount,
+        receivedCount: (row.receivedCount ?? 0) + values.receivedCount,
+      }));
+  }
+}
@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { SendQueue, type BackpressurePolicy } from './send-queue';
+import type { Event } from './websocket';
+
+// Just enough of a socket: `bufferedAmount` is set by the test to simulate a slow client
+class FakeSocket {
+  readyState: number = WebSocket.OPEN;
+  bufferedAmount = 0;
+  sent: string[] = [];
+  closed: { code: number; reason: string } | undefined;
+  private callbacks: (() => void)[] = [];
+
+  send(message: string, callback: () => void) {
+    this.sent.push(message);
+    this.callbacks.push(callback);
+  }
+
+  close(code: number, reason: string) {
+    this.closed = { code, reason };
+  }
+
+  // Empty the buffer and run the send callbacks, which resume the queue
+  drain() {
+    this.bufferedAmount = 0;
+    const callbacks = this.callbacks.splice(0);
+    callbacks.forEach((callback) => callback());
+  }
+}
+
+const serialize = (event: Event) =>
+  JSON.stringify(event, (_, value) => (typeof value === 'bigint' ? value.toString() : value));
+
+function setup(policy: BackpressurePolicy, options: { maxQueued?: number; maxPerSecond?: number } = {}) {
+  const socket = new FakeSocket();
+  const queue = new SendQueue(socket as unknown as WebSocket, {
+    highWaterMarkBytes: 100,
+    maxQueued: options.maxQueued ?? 2,
+    maxPerSecond: options.maxPerSecond ?? 0,
+    policy,
+    serialize
+  });
+  return { socket, queue };
+}
+
+function send(queue: SendQueue, event: Event) {
+  queue.sendEvent(event, serialize(event));
+}
+
+const transaction = (hash: string): Event => ({
+  type: 'transaction',
+  data: {
+    hash,
+    blockNumber: 1n,
+    blockTimestamp: 1n,
+    fromAddress: '0xa',
+    toAddress: '0xb',
+    value: 0n,
+    gasUsed: 21000n,
+    gasPrice: 1n,
+    transactionType: 'transfer',
+    methodSignature: '0x',
+    success: true,
+    contractAddress: ''
+  },
+  timestamp: 0,
+  chainId: 1
+});
+
+const walletGasUsage = (walletAddress: string, gas: bigint): Event => ({
+  type: 'walletGasUsage',
+  data: { walletAddress, totalGasUsed: gas, transactionCount: 1, avgGasPerTx: gas, contractsInteracted: 1 },
+  timestamp: 0,
+  chainId: 1
+});
+
+const sentTypes = (socket: FakeSocket) => socket.sent.map((message) => JSON.parse(message).type ?? message);
+
+describe('SendQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends straight to the socket while it keeps up', () => {
+    const { socket, queue } = setup('drop-oldest');
+    send(queue, transaction('0x1'));
+    send(queue, transaction('0x2'));
+    expect(socket.sent).toHaveLength(2);
+    expect(queue.getStats()).toMatchObject({ queued: 0, sent: 2, dropped: 0 });
+  });
+
+  it('drops the oldest live event once more than maxQueued are waiting', () => {
+    const { socket, queue } = setup('drop-oldest');
+    queue.sendMessage('{"type":"subscribed"}');
+    socket.bufferedAmount = 1000;
+    for (const hash of ['0x1', '0x2', '0x3']) send(queue, transaction(hash));
+
+    expect(queue.getStats()).toMatchObject({ queued: 2, dropped: 1 });
+    socket.drain();
+    expect(socket.sent.map((message) => JSON.parse(message).data?.hash ?? JSON.parse(message).type)).toEqual([
+      'subscribed',
+      '0x2',
+      '0x3'
+    ]);
+  });
+
+  it('never drops control messages', () => {
+    const { socket, queue } = setup('drop-oldest', { maxQueued: 1 });
+    for (let i = 0; i < 5; i++) {
+      queue.sendMessage(`{"type":"pong","n":${i}}`);
+      socket.bufferedAmount = 1000;
+    }
+    send(queue, transaction('0x1'));
+    send(queue, transaction('0x2'));
+
+    socket.drain();
+    expect(sentTypes(socket)).toEqual(['pong', 'pong', 'pong', 'pong', 'pong', 'transaction']);
+  });
+
+  it('merges aggregates for the same key under the coalesce policy', () => {
+    const { socket, queue } = setup('coalesce');
+    queue.sendMessage('{"type":"subscribed"}');
+    socket.bufferedAmount = 1000;
+    send(queue, walletGasUsage('0xa', 100n));
+    send(queue, walletGasUsage('0xb', 50n));
+    send(queue, walletGasUsage('0xa', 300n));
+
+    expect(queue.getStats()).toMatchObject({ queued: 2, coalesced: 1, dropped: 0 });
+    socket.drain();
+    const [, first, second] = socket.sent.map((message) => JSON.parse(message));
+    expect(first).toMatchObject({
+      coalesced: 2,
+      data: { walletAddress: '0xa', totalGasUsed: '400', transactionCount: 2, avgGasPerTx: '200', contractsInteracted: 2 }
+    });
+    expect(second.data).toMatchObject({ walletAddress: '0xb', totalGasUsed: '50' });
+  });
+
+  it('does not merge transactions', () => {
+    const { socket, queue } = setup('coalesce', { maxQueued: 10 });
+    queue.sendMessage('{"type":"subscribed"}');
+    socket.bufferedAmount = 1000;
+    send(queue, transaction('0x1'));
+    send(queue, transaction('0x1'));
+    expect(queue.getStats()).toMatchObject({ queued: 2, coalesced: 0 });
+  });
+
+  it('closes a slow client under the disconnect policy', () => {
+    const { socket, queue } = setup('disconnect');
+    socket.bufferedAmount = 1000;
+    for (const hash of ['0x1', '0x2', '0x3']) send(queue, transaction(hash));
+
+    expect(socket.closed).toEqual({ code: 1013, reason: 'Client too slow' });
+    expect(queue.getStats()).toMatchObject({ queued: 0, dropped: 3 });
+  });
+
+  it('spreads messages out to maxPerSecond', () => {
+    vi.useFakeTimers();
+    const { socket, queue } = setup('drop-oldest', { maxQueued: 10, maxPerSecond: 2 });
+    for (const hash of ['0x1', '0x2', '0x3']) send(queue, transaction(hash));
+    expect(socket.sent).toHaveLength(2);
+
+    vi.advanceTimersByTime(500);
+    expect(socket.sent).toHaveLength(3);
+  });
+});
@@ -0,0 +1,260 @@
+import { WebSocket } from 'ws';
+import type { Event } from './websocket';
+
+// Per-client outbound queue for the WebSocket server.
+//
+// Messages go straight to the socket while its buffer is below the high-water
+// mark. Once a client falls behind they wait here, and when more than
+// `maxQueued` live events are waiting the client's policy decides what happens:
+//
+//   drop-oldest - the oldest queued live event is discarded
+//   coalesce    - queued snapshot and aggregate events are merged with newer
+//                 ones for the same key first, then the oldest is discarded
+//   disconnect  - the client is closed with 1013 (try again later)
+//
+// Control replies and replayed events are never dropped or merged. Per-block
+// batch frames can be dropped but are never merged.
+
+export const BACKPRESSURE_POLICIES = ['drop-oldest', 'coalesce', 'disconnect'] as const;
+
+export type BackpressurePolicy = (typeof BACKPRESSURE_POLICIES)[number];
+
+export interface SendQueueOptions {
+  highWaterMarkBytes: number; // Socket buffer size above which messages are queued
+  maxQueued: number; // Queued live events before the policy applies
+  maxPerSecond: number; // Messages per second to this client; 0 = unlimited
+  policy: BackpressurePolicy;
+  serialize: (event: Event) => string;
+}
+
+export interface SendQueueStats {
+  policy: BackpressurePolicy;
+  queued: number;
+  sent: number;
+  dropped: number;
+  coalesced: number;
+}
+
+interface Entry {
+  message: string;
+  live: boolean; // Live events and batch frames; may be dropped
+  event?: Event; // Live events only, for coalescing
+  key?: string; // Coalesce key
+  merged?: number; // Events folded into this one
+}
+
+// ==============================================
+// COALESCING
+// ==============================================
+
+// Events that can stand in for earlier ones of the same key. Snapshots are
+// replaced; per-transaction aggregates are summed. Transactions, transfers,
+// blocks and reorgs are never merged. As in the subscription filters, the data
+// union is told apart by a field only the expected shape carries.
+function coalesceKey(event: Event): string | undefined {
+  const data = event.data;
+  switch (event.type) {
+    case 'networkStats':
+      return `networkStats:${event.chainId}`;
+    case 'contractUsage':
+      if (!('avgGasPerTx' in data) || !('contractAddress' in data) || 'walletAddress' in data) return undefined;
+      return `contractUsage:${event.chainId}:${data.contractAddress}`;
+    case 'walletGasUsage':
+      if (!('contractsInteracted' in data)) return undefined;
+      return `walletGasUsage:${event.chainId}:${data.walletAddress}`;
+    case 'monWalletActivity':
+      if (!('totalSent' in data)) return undefined;
+      return `monWalletActivity:${event.chainId}:${data.walletAddress}`;
+    case 'walletContractInteraction':
+      if (!('walletAddress' in data) || !('contractAddress' in data)) return undefined;
+      return `walletContractInteraction:${event.chainId}:${data.walletAddress}:${data.contractAddress}`;
+    default:
+      return undefined;
+  }
+}
+
+// Both events share a coalesce key, so they have the same type and shape
+function merge(older: Event, newer: Event): Event {
+  const a = older.data;
+  const b = newer.data;
+
+  switch (newer.type) {
+    case 'contractUsage':
+    case 'walletContractInteraction': {
+      if (!('avgGasPerTx' in a) || !('gasUsed' in a) || !('avgGasPerTx' in b) || !('gasUsed' in b)) break;
+      const transactionCount = a.transactionCount + b.transactionCount;
+      const gasUsed = a.gasUsed + b.gasUsed;
+      return { ...newer, data: { ...b, transactionCount, gasUsed, avgGasPerTx: gasUsed / BigInt(transactionCount) } };
+    }
+    case 'walletGasUsage': {
+      if (!('contractsInteracted' in a) || !('contractsInteracted' in b)) break;
+      const transactionCount = a.transactionCount + b.transactionCount;
+      const totalGasUsed = a.totalGasUsed + b.totalGasUsed;
+      return {
+        ...newer,
+        data: {
+          ...b,
+          transactionCount,
+          totalGasUsed,
+          avgGasPerTx: totalGasUsed / BigInt(transactionCount),
+          contractsInteracted: a.contractsInteracted + b.contractsInteracted
+        }
+      };
+    }
+    case 'monWalletActivity':
+      if (!('totalSent' in a) || !('totalSent' in b)) break;
+      return {
+        ...newer,
+        data: {
+          ...b,
+          totalSent: a.totalSent + b.totalSent,
+          totalReceived: a.totalReceived + b.totalReceived,
+          transferCount: a.transferCount + b.transferCount,
+          sentCount: a.sentCount + b.sentCount,
+          receivedCount: a.receivedCount + b.receivedCount
+        }
+      };
+  }
+
+  // Snapshots: the newest wins
+  return newer;
+}
+
+// ==============================================
+// QUEUE
+// ==============================================
+
+export class SendQueue {
+  private readonly entries: Entry[] = [];
+  private readonly byKey = new Map<string, Entry>();
+  private liveCount = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private retryTimer: NodeJS.Timeout | undefined;
+  private readonly stats = { sent: 0, dropped: 0, coalesced: 0 };
+
+  constructor(
+    private readonly ws: WebSocket,
+    private readonly options: SendQueueOptions
+  ) {
+    this.tokens = options.maxPerSecond;
+  }
+
+  get policy(): BackpressurePolicy {
+    return this.options.policy;
+  }
+
+  set policy(policy: BackpressurePolicy) {
+    this.options.policy = policy;
+  }
+
+  // Control replies and replayed events: always delivered, in order
+  sendMessage(message: string) {
+    this.entries.push({ message, live: false });
+    this.flush();
+  }
+
+  // A live event, already serialized once for all clients
+  sendEvent(event: Event, message: string) {
+    const behind = this.entries.length > 0;
+    const key = behind && this.options.policy === 'coalesce' ? coalesceKey(event) : undefined;
+
+    const existing = key ? this.byKey.get(key) : undefined;
+    if (existing?.event) {
+      existing.event = merge(existing.event, event);
+      existing.merged = (existing.merged ?? 1) + 1;
+      existing.message = this.options.serialize({ ...existing.event, coalesced: existing.merged });
+      this.stats.coalesced++;
+      return;
+    }
+
+    const entry: Entry = { message, live: true, event, key: coalesceKey(event) };
+    if (entry.key) this.byKey.set(entry.key, entry);
+    this.enqueueLive(entry);
+  }
+
+  // A batch frame: dropped like a live event, never coalesced
+  sendFrame(message: string) {
+    this.enqueueLive({ message, live: true });
+  }
+
+  private enqueueLive(entry: Entry) {
+    this.entries.push(entry);
+    this.liveCount++;
+
+    if (this.liveCount > this.options.maxQueued) {
+      this.overflow();
+    }
+    this.flush();
+  }
+
+  private overflow() {
+    if (this.options.policy === 'disconnect') {
+      this.stats.dropped += this.liveCount;
+      this.clear();
+      this.ws.close(1013, 'Client too slow');
+      return;
+    }
+    const index = this.entries.findIndex((entry) => entry.live);
+    if (index === -1) return;
+    const [dropped] = this.entries.splice(index, 1);
+    this.forget(dropped!);
+    this.stats.dropped++;
+  }
+
+  private forget(entry: Entry) {
+    if (entry.live) this.liveCount--;
+    if (entry.key && this.byKey.get(entry.key) === entry) this.byKey.delete(entry.key);
+  }
+
+  private takeToken(): boolean {
+    if (this.options.maxPerSecond <= 0) return true;
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.options.maxPerSecond,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.options.maxPerSecond
+    );
+    this.lastRefill = now;
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+
+  // Send while the socket has room and the rate limit allows
+  private flush() {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+
+    while (this.entries.length > 0) {
+      if (this.ws.bufferedAmount >= this.options.highWaterMarkBytes) {
+        // Resumed from the send callback once the socket drains
+        return;
+      }
+      if (!this.takeToken()) {
+        this.retryTimer ??= setTimeout(() => {
+          this.retryTimer = undefined;
+          this.flush();
+        }, 1000 / this.options.maxPerSecond);
+        return;
+      }
+
+      const entry = this.entries.shift()!;
+      this.forget(entry);
+      this.stats.sent++;
+      this.ws.send(entry.message, () => {
+        if (this.entries.length > 0) this.flush();
+      });
+    }
+  }
+
+  clear() {
+    this.entries.length = 0;
+    this.byKey.clear();
+    this.liveCount = 0;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+  }
+
+  getStats(): SendQueueStats {
+    return { policy: this.options.policy, queued: this.entries.length, ...this.stats };
+  }
+}
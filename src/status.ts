@@ -0,0 +1,159 @@
+import type { ChainDefinition } from "../chains";
+
+// Indexer status, shared by GET /status/app and the check-status.ts CLI: the
+// indexed head from the database, the chain head from the RPC and the lag
+// between them. Queries are plain SQL against Ponder's tables so the CLI can
+// run them over its own connection.
+
+// Runs one SQL statement and returns its rows
+export type StatusQuery = (text: string) => Promise<Record<string, unknown>[]>;
+
+export interface StatusOptions {
+  chains: readonly ChainDefinition[];
+  maxLagBlocks?: number;
+  maxLagSeconds?: number;
+  tpsWindowBlocks?: number;
+  websocketClients?: number; // Only known inside the indexer process
+}
+
+export type ChainHealth = "ok" | "lagging" | "unknown";
+
+export interface ChainStatus {
+  chain: string;
+  chainId: number;
+  health: ChainHealth;
+  indexedBlock: string | null;
+  indexedBlockHash: string | null;
+  indexedBlockTime: string | null;
+  chainHead: string | null;
+  lagBlocks: number | null;
+  lagSeconds: number | null;
+  tps: number; // Over the last tpsWindowBlocks indexed blocks
+  tpsWindowBlocks: number;
+  error?: string; // Why the chain head could not be fetched
+}
+
+export interface IndexerStatus {
+  healthy: boolean;
+  maxLagBlocks: number;
+  maxLagSeconds: number | null;
+  chains: ChainStatus[];
+  websocket: { clients: number } | null;
+  checkedAt: string;
+}
+
+// Defaults for both the route and the CLI; no seconds limit unless set
+const DEFAULT_MAX_LAG_BLOCKS = parseInt(process.env.STATUS_MAX_LAG_BLOCKS || "10");
+const DEFAULT_MAX_LAG_SECONDS = process.env.STATUS_MAX_LAG_SECONDS
+  ? parseInt(process.env.STATUS_MAX_LAG_SECONDS)
+  : undefined;
+const DEFAULT_TPS_WINDOW_BLOCKS = parseInt(process.env.TPS_WINDOW_BLOCKS || "100");
+
+const RPC_TIMEOUT_MS = 3_000;
+
+// Latest block number from a chain's RPC
+export async function fetchChainHead(rpc: string): Promise<bigint> {
+  const response = await fetch(rpc, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", method: "eth_blockNumber", params: [], id: 1 }),
+    signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+  });
+  const body = (await response.json()) as { result?: string; error?: { message: string } };
+  if (!body.result) {
+    throw new Error(body.error?.message ?? `eth_blockNumber failed with HTTP ${response.status}`);
+  }
+  return BigInt(body.result);
+}
+
+// Latest indexed block and the transaction rate over the blocks before it.
+// The chain id and window are integers, checked here, so they are inlined.
+async function indexedHead(query: StatusQuery, chainId: number, windowBlocks: number) {
+  if (!Number.isSafeInteger(chainId) || !Number.isSafeInteger(windowBlocks) || windowBlocks < 1) {
+    throw new Error(`Invalid chain id ${chainId} or TPS window ${windowBlocks}`);
+  }
+  const [row] = await query(`
+    SELECT
+      max(number)::text AS number,
+      (array_agg(hash ORDER BY number DESC))[1] AS hash,
+      max(timestamp)::text AS newest,
+      min(timestamp)::text AS oldest,
+      coalesce(sum(transaction_count), 0)::text AS transactions
+    FROM (
+      SELECT number, hash, timestamp, transaction_count
+      FROM blocks
+      WHERE chain_id = ${chainId}
+      ORDER BY number DESC
+      LIMIT ${windowBlocks}
+    ) recent
+  `);
+  if (!row || row.number === null) return null;
+
+  const newest = Number(row.newest);
+  const span = newest - Number(row.oldest);
+  return {
+    number: BigInt(row.number as string),
+    hash: row.hash as string | null,
+    timestamp: newest,
+    tps: span > 0 ? Number(row.transactions) / span : 0,
+  };
+}
+
+async function chainStatus(
+  query: StatusQuery,
+  chain: ChainDefinition,
+  maxLagBlocks: number,
+  maxLagSeconds: number | undefined,
+  windowBlocks: number
+): Promise<ChainStatus> {
+  const [head, chainHead] = await Promise.all([
+    indexedHead(query, chain.id, windowBlocks),
+    fetchChainHead(chain.rpc).then(
+      (number) => ({ number }),
+      (error: unknown) => ({ error: error instanceof Error ? error.message : String(error) })
+    ),
+  ]);
+
+  const lagBlocks = head && "number" in chainHead ? Math.max(0, Number(chainHead.number - head.number)) : null;
+  const lagSeconds = head ? Math.max(0, Math.floor(Date.now() / 1000) - head.timestamp) : null;
+
+  let health: ChainHealth = "unknown";
+  if (lagBlocks !== null && lagSeconds !== null) {
+    const behind = lagBlocks > maxLagBlocks || (maxLagSeconds !== undefined && lagSeconds > maxLagSeconds);
+    health = behind ? "lagging" : "ok";
+  }
+
+  return {
+    chain: chain.name,
+    chainId: chain.id,
+    health,
+    indexedBlock: head?.number.toString() ?? null,
+    indexedBlockHash: head?.hash ?? null,
+    indexedBlockTime: head ? new Date(head.timestamp * 1000).toISOString() : null,
+    chainHead: "number" in chainHead ? chainHead.number.toString() : null,
+    lagBlocks,
+    lagSeconds,
+    tps: head?.tps ?? 0,
+    tpsWindowBlocks: windowBlocks,
+    ...("error" in chainHead ? { error: chainHead.error } : {}),
+  };
+}
+
+export async function getIndexerStatus(query: StatusQuery, options: StatusOptions): Promise<IndexerStatus> {
+  const maxLagBlocks = options.maxLagBlocks ?? DEFAULT_MAX_LAG_BLOCKS;
+  const maxLagSeconds = options.maxLagSeconds ?? DEFAULT_MAX_LAG_SECONDS;
+  const windowBlocks = options.tpsWindowBlocks ?? DEFAULT_TPS_WINDOW_BLOCKS;
+
+  const chains = await Promise.all(
+    options.chains.map((chain) => chainStatus(query, chain, maxLagBlocks, maxLagSeconds, windowBlocks))
+  );
+
+  return {
+    healthy: chains.every((chain) => chain.health === "ok"),
+    maxLagBlocks,
+    maxLagSeconds: maxLagSeconds ?? null,
+    chains,
+    websocket: options.websocketClients === undefined ? null : { clients: options.websocketClients },
+    checkedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { matchesSubscriptionFilter, parseSubscriptionFilter } from './subscription-filters';
+import type { Event, EventData, EventType } from './websocket';
+
+const ALICE = '0x00000000000000000000000000000000000A11CE';
+const BOB = '0x0000000000000000000000000000000000000B0B';
+const ROUTER = '0x00000000000000000000000000000000000F00D5';
+
+const event = (type: EventType, data: EventData): Event => ({ type, data, timestamp: 0, chainId: 10143 });
+
+const transaction = event('transaction', {
+  hash: '0x1',
+  blockNumber: 1n,
+  blockTimestamp: 1n,
+  fromAddress: ALICE,
+  toAddress: ROUTER,
+  value: 5n * 10n ** 18n,
+  gasUsed: 100000n,
+  gasPrice: 1n,
+  transactionType: 'swap',
+  methodSignature: '0x7ff36ab5',
+  success: true,
+  contractAddress: ROUTER
+});
+
+const block = event('block', {
+  number: 1n,
+  hash: '0x1',
+  timestamp: 1n,
+  transactionCount: 1,
+  gasUsed: 1n,
+  gasLimit: 2n
+});
+
+const walletActivity = (walletAddress: string, sentCount: number, receivedCount: number) =>
+  event('monWalletActivity', {
+    walletAddress,
+    totalSent: BigInt(sentCount),
+    totalReceived: BigInt(receivedCount),
+    transferCount: sentCount + receivedCount,
+    sentCount,
+    receivedCount
+  });
+
+const matches = (filters: unknown, target: Event) => matchesSubscriptionFilter(parseSubscriptionFilter(filters), target);
+
+describe('parseSubscriptionFilter', () => {
+  it('accepts one value or a list, lowercased', () => {
+    const filter = parseSubscriptionFilter({ from: ALICE, to: [BOB, ROUTER], minValue: '1000' });
+    expect(filter.from).toEqual(new Set([ALICE.toLowerCase()]));
+    expect(filter.to).toEqual(new Set([BOB.toLowerCase(), ROUTER.toLowerCase()]));
+    expect(filter.minValue).toBe(1000n);
+  });
+
+  it('treats a missing filter as no filter', () => {
+    expect(parseSubscriptionFilter(undefined)).toEqual({});
+    expect(parseSubscriptionFilter(null)).toEqual({});
+  });
+
+  it('rejects malformed values', () => {
+    expect(() => parseSubscriptionFilter([])).toThrow('filters must be an object');
+    expect(() => parseSubscriptionFilter({ from: '0x123' })).toThrow('Invalid from filter');
+    expect(() => parseSubscriptionFilter({ methodSignature: 'swap' })).toThrow('Invalid methodSignature filter');
+    expect(() => parseSubscriptionFilter({ transactionType: 7 })).toThrow('Invalid transactionType filter');
+    expect(() => parseSubscriptionFilter({ minValue: '-1' })).toThrow('Invalid minValue filter');
+    expect(() => parseSubscriptionFilter({ minValue: 1.5 })).toThrow('Invalid minValue filter');
+  });
+});
+
+describe('matchesSubscriptionFilter', () => {
+  it('matches transactions on every given field', () => {
+    expect(matches({}, transaction)).toBe(true);
+    expect(matches({ from: ALICE.toLowerCase() }, transaction)).toBe(true);
+    expect(matches({ from: BOB }, transaction)).toBe(false);
+    expect(matches({ to: ROUTER, contract: ROUTER }, transaction)).toBe(true);
+    expect(matches({ transactionType: 'SWAP', methodSignature: '0x7FF36AB5' }, transaction)).toBe(true);
+    expect(matches({ from: ALICE, transactionType: 'transfer' }, transaction)).toBe(false);
+  });
+
+  it('matches address on either side', () => {
+    expect(matches({ address: ROUTER }, transaction)).toBe(true);
+    expect(matches({ address: [BOB, ALICE] }, transaction)).toBe(true);
+    expect(matches({ address: BOB }, transaction)).toBe(false);
+  });
+
+  it('applies minValue to transaction values', () => {
+    expect(matches({ minValue: (5n * 10n ** 18n).toString() }, transaction)).toBe(true);
+    expect(matches({ minValue: (6n * 10n ** 18n).toString() }, transaction)).toBe(false);
+  });
+
+  it('lets events without the filtered field through', () => {
+    expect(matches({ from: BOB, contract: BOB, minValue: '1' }, block)).toBe(true);
+  });
+
+  it('matches wallet activity by the direction of its transfers', () => {
+    const sent = walletActivity(ALICE, 1, 0);
+    const received = walletActivity(ALICE, 0, 2);
+
+    expect(matches({ from: ALICE }, sent)).toBe(true);
+    expect(matches({ from: ALICE }, received)).toBe(false);
+    expect(matches({ to: ALICE }, received)).toBe(true);
+    expect(matches({ to: ALICE }, sent)).toBe(false);
+    expect(matches({ from: BOB }, walletActivity(ALICE, 1, 1))).toBe(false);
+    expect(matches({ address: ALICE }, received)).toBe(true);
+    expect(matches({ address: BOB }, received)).toBe(false);
+  });
+});
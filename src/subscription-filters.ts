@@ -0,0 +1,164 @@
+import type { Event } from './websocket';
+
+// Per-client filters for WebSocket subscriptions.
+//
+// A filter only applies to events that carry the matching field: a `from`
+// filter narrows transactions and MON transfers, but block, networkStats and
+// reorg events still reach the client. Alerts match on the wallet or contract
+// they are about. All given filters must match.
+
+export interface SubscriptionFilter {
+  from?: Set<string>; // Sender address
+  to?: Set<string>; // Recipient address
+  address?: Set<string>; // Either side: sender, recipient or wallet
+  contract?: Set<string>; // Contract called or created
+  transactionType?: Set<string>;
+  methodSignature?: Set<string>; // 4-byte selector, e.g. 0xa9059cbb
+  minValue?: bigint; // MON value in wei
+}
+
+// The filterable fields of one event, lowercased
+interface FilterFields {
+  from?: string;
+  to?: string;
+  wallet?: string;
+  contract?: string;
+  transactionType?: string;
+  methodSignature?: string;
+  value?: bigint;
+}
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const SELECTOR_PATTERN = /^0x[a-fA-F0-9]{8}$/;
+
+// One value or a list of values, validated and lowercased
+function parseValues(raw: unknown, name: string, pattern?: RegExp): Set<string> {
+  const values = Array.isArray(raw) ? raw : [raw];
+  const parsed = new Set<string>();
+  for (const value of values) {
+    if (typeof value !== 'string' || (pattern && !pattern.test(value))) {
+      throw new Error(`Invalid ${name} filter: ${JSON.stringify(value)}`);
+    }
+    parsed.add(value.toLowerCase());
+  }
+  return parsed;
+}
+
+// Parse the `filters` object of a subscribe message; throws on invalid values
+export function parseSubscriptionFilter(raw: unknown): SubscriptionFilter {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('filters must be an object');
+  }
+
+  const input = raw as Record<string, unknown>;
+  const filter: SubscriptionFilter = {};
+
+  if (input.from !== undefined) filter.from = parseValues(input.from, 'from', ADDRESS_PATTERN);
+  if (input.to !== undefined) filter.to = parseValues(input.to, 'to', ADDRESS_PATTERN);
+  if (input.address !== undefined) filter.address = parseValues(input.address, 'address', ADDRESS_PATTERN);
+  if (input.contract !== undefined) filter.contract = parseValues(input.contract, 'contract', ADDRESS_PATTERN);
+  if (input.transactionType !== undefined) {
+    filter.transactionType = parseValues(input.transactionType, 'transactionType');
+  }
+  if (input.methodSignature !== undefined) {
+    filter.methodSignature = parseValues(input.methodSignature, 'methodSignature', SELECTOR_PATTERN);
+  }
+  if (input.minValue !== undefined) {
+    const value = input.minValue;
+    if ((typeof value !== 'string' && typeof value !== 'number') || !/^\d+$/.test(String(value))) {
+      throw new Error('Invalid minValue filter: expected a non-negative integer amount of wei');
+    }
+    filter.minValue = BigInt(value);
+  }
+
+  return filter;
+}
+
+// Empty fields (no recipient on a contract creation) never match a filter
+function lower(value: string | undefined): string {
+  return (value ?? '').toLowerCase();
+}
+
+// The data union is told apart by a field only the expected shape carries;
+// data that does not match its event type has no filterable fields
+function filterFields(event: Event): FilterFields {
+  const data = event.data;
+  switch (event.type) {
+    case 'transaction':
+      if (!('methodSignature' in data)) return {};
+      return {
+        from: lower(data.fromAddress),
+        to: lower(data.toAddress),
+        contract: lower(data.contractAddress),
+        transactionType: lower(data.transactionType),
+        methodSignature: lower(data.methodSignature),
+        value: data.value
+      };
+    case 'monTransfer':
+      if (!('amount' in data)) return {};
+      return { from: lower(data.fromAddress), to: lower(data.toAddress), value: data.amount };
+    case 'monWalletActivity': {
+      // The wallet is the sender and/or the recipient, by the direction of its
+      // transfers; an empty side never matches, so `from` only sees wallets that sent
+      if (!('totalSent' in data)) return {};
+      const wallet = lower(data.walletAddress);
+      return {
+        from: data.sentCount > 0 ? wallet : '',
+        to: data.receivedCount > 0 ? wallet : '',
+        wallet
+      };
+    }
+    case 'contractUsage':
+      if (!('avgGasPerTx' in data) || !('contractAddress' in data) || 'walletAddress' in data) return {};
+      return { contract: lower(data.contractAddress), transactionType: lower(data.transactionType) };
+    case 'walletContractInteraction':
+      if (!('walletAddress' in data) || !('contractAddress' in data)) return {};
+      return {
+        from: lower(data.walletAddress),
+        contract: lower(data.contractAddress),
+        transactionType: lower(data.transactionType)
+      };
+    case 'walletGasUsage':
+      if (!('contractsInteracted' in data)) return {};
+      return { from: lower(data.walletAddress) };
+    case 'alert':
+      // The wallet or contract the alert is about; chain-wide alerts have none
+      if (!('ruleId' in data) || !data.address) return {};
+      return data.kind === 'contractSurge' ? { contract: lower(data.address) } : { wallet: lower(data.address) };
+    default:
+      return {};
+  }
+}
+
+// A filter passes when the event lacks the field, or the field has an accepted value
+function matchesSet(accepted: Set<string> | undefined, ...values: (string | undefined)[]): boolean {
+  if (!accepted) return true;
+  const present = values.filter((value): value is string => value !== undefined);
+  if (present.length === 0) return true;
+  return present.some((value) => accepted.has(value));
+}
+
+export function matchesSubscriptionFilter(filter: SubscriptionFilter, event: Event): boolean {
+  const fields = filterFields(event);
+
+  if (!matchesSet(filter.from, fields.from)) return false;
+  if (!matchesSet(filter.to, fields.to)) return false;
+  if (!matchesSet(filter.address, fields.from, fields.to, fields.wallet)) return false;
+  if (!matchesSet(filter.contract, fields.contract)) return false;
+  if (!matchesSet(filter.transactionType, fields.transactionType)) return false;
+  if (!matchesSet(filter.methodSignature, fields.methodSignature)) return false;
+  if (filter.minValue !== undefined && fields.value !== undefined && fields.value < filter.minValue) return false;
+
+  return true;
+}
+
+// JSON-friendly form of a filter, for the `subscribed` confirmation
+export function describeSubscriptionFilter(filter: SubscriptionFilter): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(filter).map(([key, value]) => [
+      key,
+      value instanceof Set ? Array.from(value) : (value as bigint).toString()
+    ])
+  );
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { createPublicClient, custom, encodeAbiParameters, HttpRequestError, type Address } from "viem";
+import { ensureTokens } from "./tokens";
+
+type EthCall = { to: Address; data: `0x${string}` };
+
+// Selectors of name(), symbol() and decimals()
+const NAME = "0x06fdde03";
+const SYMBOL = "0x95d89b41";
+const DECIMALS = "0x313ce567";
+
+// A block context whose RPC answers eth_call with `respond` and whose db keeps inserted tokens
+function fakeContext(respond: (call: EthCall) => `0x${string}`) {
+  const rows = new Map<string, Record<string, unknown>>();
+  let calls = 0;
+  const provider = {
+    async request({ method, params }: { method: string; params?: unknown }) {
+      if (method !== "eth_call") throw new Error(`unexpected ${method}`);
+      calls++;
+      return respond((params as [EthCall])[0]);
+    },
+  };
+  const client = createPublicClient({ transport: custom(provider, { retryCount: 0 }) });
+  const db = {
+    find: async (_: unknown, key: { address: string }) => rows.get(key.address) ?? null,
+    insert: () => ({
+      values: (row: Record<string, unknown>) => ({
+        onConflictDoNothing: async () => {
+          rows.set(String(row.address), row);
+        },
+      }),
+    }),
+  };
+  const context = { client, db } as unknown as Parameters<typeof ensureTokens>[0];
+  return { context, rows, calls: () => calls };
+}
+
+const ensure = (context: Parameters<typeof ensureTokens>[0], address: Address) =>
+  ensureTokens(context, 10143, [address], 100n, 1000n);
+
+describe("ensureTokens", () => {
+  it("stores the token's metadata", async () => {
+    const { context, rows } = fakeContext(({ data }) => {
+      if (data === NAME) return encodeAbiParameters([{ type: "string" }], ["Wrapped MON"]);
+      if (data === SYMBOL) return encodeAbiParameters([{ type: "string" }], ["WMON"]);
+      return encodeAbiParameters([{ type: "uint8" }], [18]);
+    });
+    const address = "0x0000000000000000000000000000000000000001";
+    await ensure(context, address);
+    expect(rows.get(address)).toMatchObject({ name: "Wrapped MON", symbol: "WMON", decimals: 18, firstSeenBlock: 100n });
+  });
+
+  it("stores null for methods that revert, return nothing or return something else", async () => {
+    const { context, rows } = fakeContext(({ data }) => {
+      if (data === NAME) throw { code: -32000, message: "execution reverted" };
+      if (data === SYMBOL) return "0x";
+      return "0x1234";
+    });
+    const address = "0x0000000000000000000000000000000000000002";
+    await ensure(context, address);
+    expect(rows.get(address)).toMatchObject({ name: null, symbol: null, decimals: null });
+  });
+
+  it("skips the token when the RPC fails, and reads it again later", async () => {
+    let failing = true;
+    const { context, rows, calls } = fakeContext(({ data }) => {
+      if (failing && data === NAME) throw { code: -32005, message: "limit exceeded" };
+      if (failing && data === SYMBOL) throw new HttpRequestError({ url: "http://rpc", status: 429 });
+      return data === DECIMALS
+        ? encodeAbiParameters([{ type: "uint8" }], [18])
+        : encodeAbiParameters([{ type: "string" }], ["Token"]);
+    });
+    const address = "0x0000000000000000000000000000000000000003";
+
+    await ensure(context, address);
+    expect(rows.has(address)).toBe(false);
+
+    failing = false;
+    await ensure(context, address);
+    expect(calls()).toBe(6);
+    expect(rows.get(address)).toMatchObject({ name: "Token", symbol: "Token", decimals: 18 });
+  });
+});
@@ -0,0 +1,131 @@
+import type { Context } from "ponder:registry";
+import { tokens } from "ponder:schema";
+import {
+  CallExecutionError,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  ExecutionRevertedError,
+  decodeEventLog,
+  erc20Abi,
+  type Address,
+  type Log,
+} from "viem";
+
+type BlockContext = Context<"monadBlocks:block">;
+
+// keccak256("Transfer(address,address,uint256)")
+const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+export interface DecodedTokenTransfer {
+  tokenAddress: Address;
+  fromAddress: Address;
+  toAddress: Address;
+  amount: bigint;
+  logIndex: number;
+}
+
+interface TokenMetadata {
+  name: string | null;
+  symbol: string | null;
+  decimals: number | null;
+}
+
+// Metadata already read from chain, keyed by `${chainId}-${address}`, so each
+// token costs at most one round of RPC calls
+const metadataCache = new Map<string, TokenMetadata>();
+
+// Decode an ERC-20 Transfer log. ERC-721 transfers share the same signature
+// but index the token id as a fourth topic, so they are skipped here.
+export function decodeTokenTransfer(log: Log): DecodedTokenTransfer | null {
+  if (log.topics[0] !== TRANSFER_TOPIC || log.topics.length !== 3) return null;
+  if (log.logIndex === null) return null;
+
+  try {
+    const { args } = decodeEventLog({
+      abi: erc20Abi,
+      eventName: "Transfer",
+      data: log.data,
+      topics: log.topics,
+    });
+
+    return {
+      tokenAddress: log.address,
+      fromAddress: args.from,
+      toAddress: args.to,
+      amount: args.value,
+      logIndex: log.logIndex,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Whether a read failed because of the contract (it reverted, lacks the method
+// or returned data that doesn't decode) rather than the RPC request. viem wraps
+// failed requests in CallExecutionError, reverts included.
+function isContractError(error: unknown): boolean {
+  if (!(error instanceof ContractFunctionExecutionError)) return false;
+  const reverted = error.walk(
+    (cause) => cause instanceof ContractFunctionRevertedError || cause instanceof ExecutionRevertedError
+  );
+  return reverted !== null || error.walk((cause) => cause instanceof CallExecutionError) === null;
+}
+
+// Undefined when a call failed for a reason other than the contract, such as
+// a timeout or rate limit; nothing is cached and the next lookup tries again
+async function fetchTokenMetadata(
+  client: BlockContext["client"],
+  chainId: number,
+  address: Address
+): Promise<TokenMetadata | undefined> {
+  const cacheKey = `${chainId}-${address}`;
+  const cached = metadataCache.get(cacheKey);
+  if (cached) return cached;
+
+  // Non-standard tokens may omit or revert on any of these, so each is optional
+  const results = await Promise.allSettled([
+    client.readContract({ address, abi: erc20Abi, functionName: "name" }),
+    client.readContract({ address, abi: erc20Abi, functionName: "symbol" }),
+    client.readContract({ address, abi: erc20Abi, functionName: "decimals" }),
+  ]);
+  if (results.some((result) => result.status === "rejected" && !isContractError(result.reason))) {
+    return undefined;
+  }
+  const [name, symbol, decimals] = results;
+
+  const metadata: TokenMetadata = {
+    name: name.status === "fulfilled" ? name.value : null,
+    symbol: symbol.status === "fulfilled" ? symbol.value : null,
+    decimals: decimals.status === "fulfilled" ? Number(decimals.value) : null,
+  };
+  metadataCache.set(cacheKey, metadata);
+  return metadata;
+}
+
+// Make sure every token in the set has a row in the `tokens` table. A token
+// whose metadata could not be read is left out, so a later block adds it.
+export async function ensureTokens(
+  context: BlockContext,
+  chainId: number,
+  tokenAddresses: Iterable<Address>,
+  blockNumber: bigint,
+  blockTimestamp: bigint
+) {
+  for (const address of tokenAddresses) {
+    const existing = await context.db.find(tokens, { chainId, address });
+    if (existing) continue;
+
+    const metadata = await fetchTokenMetadata(context.client, chainId, address);
+    if (!metadata) continue;
+    await context.db
+      .insert(tokens)
+      .values({
+        chainId,
+        address,
+        ...metadata,
+        firstSeenBlock: blockNumber,
+        firstSeenTimestamp: blockTimestamp,
+      })
+      .onConflictDoNothing();
+  }
+}
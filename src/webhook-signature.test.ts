@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TOLERANCE_SECONDS, signWebhook, verifyWebhookSignature } from "./webhook-signature";
+
+const SECRET = "whsec_test";
+const BODY = JSON.stringify({ type: "ping", data: { id: 1 } });
+const now = () => Math.floor(Date.now() / 1000);
+
+describe("webhook signatures", () => {
+  it("formats the header as t=<seconds>,v1=<hex>", () => {
+    expect(signWebhook(SECRET, BODY, 1700000000)).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+  });
+
+  it("verifies a fresh signature", () => {
+    expect(verifyWebhookSignature(SECRET, signWebhook(SECRET, BODY), BODY)).toBe(true);
+  });
+
+  it("rejects a different body or secret", () => {
+    const header = signWebhook(SECRET, BODY);
+    expect(verifyWebhookSignature(SECRET, header, BODY + " ")).toBe(false);
+    expect(verifyWebhookSignature("whsec_other", header, BODY)).toBe(false);
+  });
+
+  it("rejects timestamps outside the tolerance", () => {
+    const old = signWebhook(SECRET, BODY, now() - DEFAULT_TOLERANCE_SECONDS - 10);
+    expect(verifyWebhookSignature(SECRET, old, BODY)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, old, BODY, DEFAULT_TOLERANCE_SECONDS + 60)).toBe(true);
+    const future = signWebhook(SECRET, BODY, now() + DEFAULT_TOLERANCE_SECONDS + 10);
+    expect(verifyWebhookSignature(SECRET, future, BODY)).toBe(false);
+  });
+
+  it("rejects missing or malformed headers", () => {
+    const timestamp = now();
+    expect(verifyWebhookSignature(SECRET, undefined, BODY)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, "", BODY)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, "garbage", BODY)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, `t=${timestamp}`, BODY)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, `t=${timestamp},v1=abcd`, BODY)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, signWebhook(SECRET, BODY).replace(/^t=\d+/, "t=soon"), BODY)).toBe(false);
+  });
+});
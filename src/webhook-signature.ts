@@ -0,0 +1,42 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Signatures for outbound webhooks.
+//
+// Every request carries
+//
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+//
+// keyed with the subscription's secret. Receivers recompute the HMAC over the
+// raw body and reject old timestamps, so a captured request cannot be replayed.
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+// Requests signed longer ago than this are rejected by verifyWebhookSignature()
+export const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+export function signWebhook(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+// Whether a signature header matches the body and is recent enough
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | undefined,
+  body: string,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  if (!header) return false;
+  const parts = new Map(header.split(",").map((part) => part.trim().split("=", 2) as [string, string]));
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isSafeInteger(timestamp) || !signature) return false;
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(hmac(secret, timestamp, body), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { backoff, isRetryable } from "./webhooks";
+
+describe("webhook retries", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("doubles the delay on each attempt up to the cap", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect([1, 2, 3, 4].map(backoff)).toEqual([1000, 2000, 4000, 8000]);
+    expect(backoff(20)).toBe(300000);
+  });
+
+  it("adds up to 10% jitter either way", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(backoff(1)).toBe(900);
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(backoff(1)).toBe(1100);
+  });
+
+  it("retries missing responses, timeouts, rate limits and server errors only", () => {
+    for (const status of [undefined, 408, 429, 500, 502, 503]) expect(isRetryable(status)).toBe(true);
+    for (const status of [400, 401, 404, 410, 422]) expect(isRetryable(status)).toBe(false);
+  });
+});
@@ -0,0 +1,665 @@
+import { randomBytes, randomUUID } from "crypto";
+import { Pool } from "pg";
+import { logger } from "./logger";
+import { matchesSubscriptionFilter, parseSubscriptionFilter, type SubscriptionFilter } from "./subscription-filters";
+import { SIGNATURE_HEADER, signWebhook } from "./webhook-signature";
+import { EVENT_TYPES, eventEmitter, type Event, type EventType } from "./websocket";
+
+// Outbound webhooks, for consumers that cannot hold a WebSocket open.
+//
+// Subscriptions are registered through /webhooks and stored, with the delivery
+// log and dead letters, in their own Postgres schema (WEBHOOK_SCHEMA, default
+// "webhooks") so a Ponder reindex leaves them alone. Every event the indexer
+// emits is matched against the active subscriptions by event type, chain and
+// filters, exactly like a WebSocket subscription, and POSTed as signed JSON
+// (see webhook-signature.ts). Failed deliveries are retried with exponential
+// backoff; after WEBHOOK_MAX_ATTEMPTS they go to the dead-letter table.
+// Retries waiting for their next attempt are kept in the `pending` table and
+// picked up again after a restart.
+//
+// Only live events are delivered: a chain's events are held back until an
+// indexed block is within WEBHOOK_MAX_LAG_SECONDS of the wall clock, so a
+// backfill or reindex does not replay history to every endpoint.
+
+// networkStats snapshots are per-second WebSocket pushes, not indexer events
+export const WEBHOOK_EVENT_TYPES = EVENT_TYPES.filter((type) => type !== "networkStats");
+
+const SCHEMA = process.env.WEBHOOK_SCHEMA || "webhooks";
+
+// Attempts per event, including the first, and the backoff between them
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "6");
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || "1000");
+const RETRY_MAX_MS = parseInt(process.env.WEBHOOK_RETRY_MAX_MS || "300000");
+
+const TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000");
+
+// Requests in flight across all subscriptions, and events waiting per
+// subscription before new ones go straight to the dead-letter table
+const MAX_CONCURRENCY = parseInt(process.env.WEBHOOK_CONCURRENCY || "8");
+const MAX_PENDING = parseInt(process.env.WEBHOOK_MAX_PENDING || "1000");
+
+// Delivery log rows older than this are deleted hourly; dead letters are kept
+const LOG_RETENTION_DAYS = parseInt(process.env.WEBHOOK_LOG_RETENTION_DAYS || "7");
+
+// A chain counts as live once a block this close to the wall clock is indexed
+const MAX_LAG_SECONDS = parseInt(process.env.WEBHOOK_MAX_LAG_SECONDS || "60");
+
+const log = logger.child({ module: "webhooks" });
+
+export interface WebhookInput {
+  url: string;
+  events: EventType[];
+  chains: number[]; // Empty = all chains
+  filters: Record<string, unknown>; // Same shape as WebSocket `filters`
+  description?: string;
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: EventType[];
+  chains: number[];
+  filters: Record<string, unknown>;
+  description: string | null;
+  owner: string | null; // Name of the API key that registered it
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  eventType: string;
+  attempt: number;
+  status: "delivered" | "retrying" | "failed";
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number;
+  createdAt: string;
+}
+
+export interface DeadLetter {
+  id: string;
+  eventId: string;
+  eventType: string;
+  payload: unknown;
+  attempts: number;
+  lastStatus: number | null;
+  lastError: string | null;
+  createdAt: string;
+}
+
+// ==============================================
+// STORAGE
+// ==============================================
+
+let pool: Pool | undefined;
+let schemaReady: Promise<void> | undefined;
+
+const table = (name: string) => `"${SCHEMA.replace(/"/g, '""')}".${name}`;
+
+// Webhooks need somewhere writable; Ponder's API database is read-only
+export function isWebhooksEnabled(): boolean {
+  return Boolean(process.env.DATABASE_URL);
+}
+
+function createSchema(db: Pool): Promise<void> {
+  return db
+    .query(
+      `CREATE SCHEMA IF NOT EXISTS "${SCHEMA.replace(/"/g, '""')}";
+       CREATE TABLE IF NOT EXISTS ${table("subscriptions")} (
+         id text PRIMARY KEY,
+         url text NOT NULL,
+         secret text NOT NULL,
+         events text[] NOT NULL,
+         chains integer[] NOT NULL DEFAULT '{}',
+         filters jsonb NOT NULL DEFAULT '{}',
+         description text,
+         owner text,
+         created_at timestamptz NOT NULL DEFAULT now()
+       );
+       CREATE TABLE IF NOT EXISTS ${table("deliveries")} (
+         id bigserial PRIMARY KEY,
+         subscription_id text NOT NULL REFERENCES ${table("subscriptions")} (id) ON DELETE CASCADE,
+         event_id text NOT NULL,
+         event_type text NOT NULL,
+         attempt integer NOT NULL,
+         status text NOT NULL,
+         response_status integer,
+         error text,
+         duration_ms integer NOT NULL,
+         created_at timestamptz NOT NULL DEFAULT now()
+       );
+       CREATE INDEX IF NOT EXISTS deliveries_subscription_id_idx ON ${table("deliveries")} (subscription_id, id);
+       CREATE TABLE IF NOT EXISTS ${table("dead_letters")} (
+         id bigserial PRIMARY KEY,
+         subscription_id text NOT NULL REFERENCES ${table("subscriptions")} (id) ON DELETE CASCADE,
+         event_id text NOT NULL,
+         event_type text NOT NULL,
+         payload jsonb NOT NULL,
+         attempts integer NOT NULL,
+         last_status integer,
+         last_error text,
+         created_at timestamptz NOT NULL DEFAULT now()
+       );
+       CREATE INDEX IF NOT EXISTS dead_letters_subscription_id_idx ON ${table("dead_letters")} (subscription_id, id);
+       CREATE TABLE IF NOT EXISTS ${table("pending")} (
+         subscription_id text NOT NULL REFERENCES ${table("subscriptions")} (id) ON DELETE CASCADE,
+         event_id text NOT NULL,
+         event_type text NOT NULL,
+         body text NOT NULL,
+         attempt integer NOT NULL,
+         next_attempt_at timestamptz NOT NULL,
+         PRIMARY KEY (subscription_id, event_id)
+       );`
+    )
+    .then(() => undefined);
+}
+
+// Pool with the webhook tables created; a failed setup is retried on the next call
+async function getDb(): Promise<Pool> {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("Webhooks need DATABASE_URL");
+  }
+  const db = (pool ??= new Pool({ connectionString: process.env.DATABASE_URL, max: 4 }));
+  schemaReady ??= createSchema(db).catch((error) => {
+    schemaReady = undefined;
+    throw error;
+  });
+  await schemaReady;
+  return db;
+}
+
+interface SubscriptionRow {
+  id: string;
+  url: string;
+  secret: string;
+  events: EventType[];
+  chains: number[];
+  filters: Record<string, unknown>;
+  description: string | null;
+  owner: string | null;
+  created_at: Date;
+}
+
+interface DeliveryRow {
+  id: string; // bigserial, returned as a string
+  event_id: string;
+  event_type: string;
+  attempt: number;
+  status: WebhookDelivery["status"];
+  response_status: number | null;
+  error: string | null;
+  duration_ms: number;
+  created_at: Date;
+}
+
+interface DeadLetterRow {
+  id: string;
+  event_id: string;
+  event_type: string;
+  payload: unknown;
+  attempts: number;
+  last_status: number | null;
+  last_error: string | null;
+  created_at: Date;
+}
+
+interface PendingRow {
+  subscription_id: string;
+  event_id: string;
+  event_type: string;
+  body: string; // Exactly as first sent; it is signed again on every attempt
+  attempt: number; // The attempt waiting to be made
+  next_attempt_at: Date;
+}
+
+function toWebhook(row: SubscriptionRow): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    events: row.events,
+    chains: row.chains,
+    filters: row.filters,
+    description: row.description,
+    owner: row.owner,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+// ==============================================
+// SUBSCRIPTIONS
+// ==============================================
+
+// A subscription as matched against events; `removed` stops its pending retries
+interface ActiveWebhook {
+  id: string;
+  url: string;
+  secret: string;
+  events: Set<EventType>;
+  chains: Set<number>;
+  filter: SubscriptionFilter;
+  pending: number; // Events not yet delivered or dead-lettered
+  removed: boolean;
+}
+
+// Loaded once by startWebhookDelivery() and kept in step by create/delete
+const active = new Map<string, ActiveWebhook>();
+
+function activate(row: SubscriptionRow) {
+  active.set(row.id, {
+    id: row.id,
+    url: row.url,
+    secret: row.secret,
+    events: new Set(row.events),
+    chains: new Set(row.chains),
+    filter: parseSubscriptionFilter(row.filters),
+    pending: 0,
+    removed: false,
+  });
+}
+
+// Register a subscription; the secret is only ever returned here
+export async function createWebhook(
+  input: WebhookInput,
+  owner: string | undefined
+): Promise<Webhook & { secret: string }> {
+  const db = await getDb();
+  const secret = `whsec_${randomBytes(24).toString("base64url")}`;
+  const { rows } = await db.query<SubscriptionRow>(
+    `INSERT INTO ${table("subscriptions")} (id, url, secret, events, chains, filters, description, owner)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [randomUUID(), input.url, secret, input.events, input.chains, input.filters, input.description ?? null, owner ?? null]
+  );
+  const row = rows[0]!;
+  activate(row);
+  return { ...toWebhook(row), secret };
+}
+
+// Every subscription, or only those registered by `owner`
+export async function listWebhooks(owner?: string): Promise<Webhook[]> {
+  const db = await getDb();
+  const { rows } =
+    owner === undefined
+      ? await db.query<SubscriptionRow>(`SELECT * FROM ${table("subscriptions")} ORDER BY created_at`)
+      : await db.query<SubscriptionRow>(
+          `SELECT * FROM ${table("subscriptions")} WHERE owner = $1 ORDER BY created_at`,
+          [owner]
+        );
+  return rows.map(toWebhook);
+}
+
+export async function getWebhook(id: string): Promise<Webhook | undefined> {
+  const db = await getDb();
+  const { rows } = await db.query<SubscriptionRow>(`SELECT * FROM ${table("subscriptions")} WHERE id = $1`, [id]);
+  return rows[0] ? toWebhook(rows[0]) : undefined;
+}
+
+// Remove a subscription with its delivery log and dead letters
+export async function deleteWebhook(id: string): Promise<boolean> {
+  const db = await getDb();
+  const { rowCount } = await db.query(`DELETE FROM ${table("subscriptions")} WHERE id = $1`, [id]);
+  const webhook = active.get(id);
+  if (webhook) {
+    webhook.removed = true;
+    active.delete(id);
+  }
+  return (rowCount ?? 0) > 0;
+}
+
+// Newest first; `before` is a delivery id from a previous page
+export async function listDeliveries(
+  id: string,
+  options: { limit: number; before?: string; status?: WebhookDelivery["status"] }
+): Promise<WebhookDelivery[]> {
+  const db = await getDb();
+  const params: unknown[] = [id];
+  const conditions = ["subscription_id = $1"];
+  if (options.before !== undefined) {
+    params.push(options.before);
+    conditions.push(`id < $${params.length}`);
+  }
+  if (options.status !== undefined) {
+    params.push(options.status);
+    conditions.push(`status = $${params.length}`);
+  }
+  params.push(options.limit);
+  const { rows } = await db.query<DeliveryRow>(
+    `SELECT * FROM ${table("deliveries")} WHERE ${conditions.join(" AND ")} ORDER BY id DESC LIMIT $${params.length}`,
+    params
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    attempt: row.attempt,
+    status: row.status,
+    responseStatus: row.response_status,
+    error: row.error,
+    durationMs: row.duration_ms,
+    createdAt: row.created_at.toISOString(),
+  }));
+}
+
+// Newest first; `before` is a dead letter id from a previous page
+export async function listDeadLetters(id: string, options: { limit: number; before?: string }): Promise<DeadLetter[]> {
+  const db = await getDb();
+  const params: unknown[] = [id];
+  let condition = "subscription_id = $1";
+  if (options.before !== undefined) {
+    params.push(options.before);
+    condition += ` AND id < $${params.length}`;
+  }
+  params.push(options.limit);
+  const { rows } = await db.query<DeadLetterRow>(
+    `SELECT * FROM ${table("dead_letters")} WHERE ${condition} ORDER BY id DESC LIMIT $${params.length}`,
+    params
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    payload: row.payload,
+    attempts: row.attempts,
+    lastStatus: row.last_status,
+    lastError: row.last_error,
+    createdAt: row.created_at.toISOString(),
+  }));
+}
+
+// ==============================================
+// DELIVERY
+// ==============================================
+
+interface DeliveryJob {
+  webhook: ActiveWebhook;
+  eventId: string; // Same on every attempt, so receivers can drop duplicates
+  eventType: string;
+  body: string;
+  attempt: number;
+}
+
+interface AttemptResult {
+  status?: number; // HTTP status; undefined when no response arrived
+  error?: string;
+  durationMs: number;
+}
+
+// Bigints (block numbers, wei amounts) as decimal strings, like the API
+function serialize(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+// Concurrency limit shared by every subscription
+let inFlight = 0;
+const waiting: (() => void)[] = [];
+
+async function acquire() {
+  if (inFlight < MAX_CONCURRENCY) {
+    inFlight++;
+    return;
+  }
+  await new Promise<void>((resolve) => waiting.push(resolve));
+}
+
+function release() {
+  const next = waiting.shift();
+  if (next) {
+    next(); // The slot passes straight to the next request
+  } else {
+    inFlight--;
+  }
+}
+
+async function post(job: DeliveryJob): Promise<AttemptResult> {
+  const started = performance.now();
+  const elapsed = () => Math.round(performance.now() - started);
+  try {
+    const response = await fetch(job.webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "monad-ponder-indexer-webhooks",
+        "X-Webhook-Id": job.eventId,
+        "X-Webhook-Event": job.eventType,
+        "X-Webhook-Attempt": String(job.attempt),
+        [SIGNATURE_HEADER]: signWebhook(job.webhook.secret, job.body),
+      },
+      body: job.body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    return { status: response.status, error: response.ok ? undefined : `HTTP ${response.status}`, durationMs: elapsed() };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error), durationMs: elapsed() };
+  }
+}
+
+// No response, timeouts, rate limits and server errors may pass; other 4xx won't
+export function isRetryable(status: number | undefined): boolean {
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+// 1s, 2s, 4s, ... capped at WEBHOOK_RETRY_MAX_MS, with 10% jitter
+export function backoff(attempt: number): number {
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempt - 1));
+  return Math.round(delay * (0.9 + Math.random() * 0.2));
+}
+
+async function logAttempt(job: DeliveryJob, result: AttemptResult, status: WebhookDelivery["status"]) {
+  const db = await getDb();
+  await db.query(
+    `INSERT INTO ${table("deliveries")}
+       (subscription_id, event_id, event_type, attempt, status, response_status, error, duration_ms)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [job.webhook.id, job.eventId, job.eventType, job.attempt, status, result.status ?? null, result.error ?? null, result.durationMs]
+  );
+}
+
+async function deadLetter(job: DeliveryJob, result: Omit<AttemptResult, "durationMs">) {
+  log.warn("Webhook delivery dead-lettered", {
+    webhookId: job.webhook.id,
+    eventId: job.eventId,
+    attempts: job.attempt,
+    error: result.error,
+  });
+  const db = await getDb();
+  await db.query(
+    `INSERT INTO ${table("dead_letters")}
+       (subscription_id, event_id, event_type, payload, attempts, last_status, last_error)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [job.webhook.id, job.eventId, job.eventType, job.body, job.attempt, result.status ?? null, result.error ?? null]
+  );
+}
+
+// Storage errors are logged, never thrown into the delivery loop
+const logStoreError = (error: unknown) => log.error("Webhook store write failed", { error });
+
+// Record a retry before waiting for it, so a restart can pick it up
+async function savePending(job: DeliveryJob, delayMs: number) {
+  const db = await getDb();
+  await db.query(
+    `INSERT INTO ${table("pending")} (subscription_id, event_id, event_type, body, attempt, next_attempt_at)
+     VALUES ($1, $2, $3, $4, $5, now() + make_interval(secs => $6))
+     ON CONFLICT (subscription_id, event_id)
+     DO UPDATE SET attempt = EXCLUDED.attempt, next_attempt_at = EXCLUDED.next_attempt_at`,
+    [job.webhook.id, job.eventId, job.eventType, job.body, job.attempt, delayMs / 1000]
+  );
+}
+
+async function clearPending(job: DeliveryJob) {
+  const db = await getDb();
+  await db.query(`DELETE FROM ${table("pending")} WHERE subscription_id = $1 AND event_id = $2`, [
+    job.webhook.id,
+    job.eventId,
+  ]);
+}
+
+// Retries waiting in this instance; stop() cancels them, their rows stay in `pending`
+const timers = new Set<NodeJS.Timeout>();
+let stopped = false;
+
+function schedule(job: DeliveryJob, delayMs: number) {
+  if (stopped) return;
+  const timer = setTimeout(() => {
+    timers.delete(timer);
+    void attempt(job);
+  }, delayMs);
+  timers.add(timer);
+}
+
+async function attempt(job: DeliveryJob) {
+  await acquire();
+  let result: AttemptResult;
+  try {
+    result = await post(job);
+  } finally {
+    release();
+  }
+  if (job.webhook.removed) return;
+
+  const delivered = result.status !== undefined && result.status >= 200 && result.status < 300;
+  const retry = !delivered && isRetryable(result.status) && job.attempt < MAX_ATTEMPTS;
+  await logAttempt(job, result, delivered ? "delivered" : retry ? "retrying" : "failed").catch(logStoreError);
+
+  if (retry) {
+    const next = { ...job, attempt: job.attempt + 1 };
+    const delay = backoff(job.attempt);
+    await savePending(next, delay).catch(logStoreError);
+    schedule(next, delay);
+    return;
+  }
+  if (!delivered) {
+    await deadLetter(job, result).catch(logStoreError);
+  }
+  if (job.attempt > 1) {
+    await clearPending(job).catch(logStoreError);
+  }
+  job.webhook.pending--;
+}
+
+function enqueue(webhook: ActiveWebhook, eventType: string, payload: Record<string, unknown>) {
+  const eventId = randomUUID();
+  const job: DeliveryJob = { webhook, eventId, eventType, body: serialize({ id: eventId, ...payload }), attempt: 1 };
+  if (webhook.pending >= MAX_PENDING) {
+    void deadLetter({ ...job, attempt: 0 }, { error: "Delivery queue full" }).catch(logStoreError);
+    return;
+  }
+  webhook.pending++;
+  void attempt(job);
+}
+
+// Chains whose indexing has reached the chain head; once live, a chain stays live
+const liveChains = new Set<number>();
+
+function trackLiveness(event: Event) {
+  if (event.chainId === undefined || liveChains.has(event.chainId) || !("gasLimit" in event.data)) return;
+  const lagSeconds = Date.now() / 1000 - Number(event.data.timestamp);
+  if (lagSeconds <= MAX_LAG_SECONDS) {
+    liveChains.add(event.chainId);
+    log.info("Webhook delivery live", { chainId: event.chainId, block: event.data.number });
+  }
+}
+
+function handleEvent(event: Event) {
+  if (event.type === "block") trackLiveness(event);
+  if (event.chainId === undefined || !liveChains.has(event.chainId)) return;
+
+  for (const webhook of active.values()) {
+    if (!webhook.events.has(event.type)) continue;
+    if (webhook.chains.size > 0 && event.chainId !== undefined && !webhook.chains.has(event.chainId)) continue;
+    if (!matchesSubscriptionFilter(webhook.filter, event)) continue;
+    enqueue(webhook, event.type, {
+      type: event.type,
+      chainId: event.chainId ?? null,
+      blockNumber: event.blockNumber ?? null,
+      timestamp: event.timestamp,
+      data: event.data,
+    });
+  }
+}
+
+// Send a `ping` to one subscription, outside its filters, to check the endpoint
+export function sendTestEvent(id: string): string | undefined {
+  const webhook = active.get(id);
+  if (!webhook) return undefined;
+  const eventId = randomUUID();
+  const body = serialize({ id: eventId, type: "ping", chainId: null, blockNumber: null, timestamp: Date.now(), data: {} });
+  webhook.pending++;
+  void attempt({ webhook, eventId, eventType: "ping", body, attempt: 1 });
+  return eventId;
+}
+
+// ==============================================
+// LIFECYCLE
+// ==============================================
+
+export interface WebhookDeliveryHandle {
+  ready: Promise<void>; // Resolves once subscriptions are loaded
+  stop(): void;
+}
+
+// Ponder's hot reload re-executes this module; starting again stops the
+// previous instance, whose waiting retries are then loaded from `pending`
+const ACTIVE_DELIVERY = Symbol.for("monad-ponder-indexer.webhooks");
+const registry = globalThis as typeof globalThis & { [ACTIVE_DELIVERY]?: WebhookDeliveryHandle };
+
+async function pruneDeliveries() {
+  const db = await getDb();
+  await db.query(`DELETE FROM ${table("deliveries")} WHERE created_at < now() - make_interval(days => $1)`, [
+    LOG_RETENTION_DAYS,
+  ]);
+}
+
+// Active subscriptions, then the retries a previous run left waiting
+async function loadSubscriptions() {
+  const db = await getDb();
+  const { rows } = await db.query<SubscriptionRow>(`SELECT * FROM ${table("subscriptions")}`);
+  rows.forEach(activate);
+
+  const { rows: pending } = await db.query<PendingRow>(`SELECT * FROM ${table("pending")}`);
+  for (const row of pending) {
+    const webhook = active.get(row.subscription_id);
+    if (!webhook) continue;
+    webhook.pending++;
+    const job = { webhook, eventId: row.event_id, eventType: row.event_type, body: row.body, attempt: row.attempt };
+    schedule(job, Math.max(0, row.next_attempt_at.getTime() - Date.now()));
+  }
+  log.info("Webhook delivery started", { subscriptions: rows.length, pendingRetries: pending.length });
+}
+
+export function startWebhookDelivery(): WebhookDeliveryHandle {
+  registry[ACTIVE_DELIVERY]?.stop();
+  stopped = false;
+
+  if (!isWebhooksEnabled()) {
+    const handle = { ready: Promise.resolve(), stop() {} };
+    registry[ACTIVE_DELIVERY] = handle;
+    return handle;
+  }
+
+  for (const type of WEBHOOK_EVENT_TYPES) {
+    eventEmitter.on(type, handleEvent);
+  }
+  const pruneTimer = setInterval(() => void pruneDeliveries().catch(logStoreError), 60 * 60 * 1000);
+  pruneTimer.unref();
+
+  const ready = loadSubscriptions().catch((error) => log.error("Loading webhook subscriptions failed", { error }));
+
+  const handle: WebhookDeliveryHandle = {
+    ready,
+    stop() {
+      for (const type of WEBHOOK_EVENT_TYPES) {
+        eventEmitter.off(type, handleEvent);
+      }
+      clearInterval(pruneTimer);
+      stopped = true;
+      timers.forEach(clearTimeout);
+      timers.clear();
+      if (registry[ACTIVE_DELIVERY] === handle) delete registry[ACTIVE_DELIVERY];
+    },
+  };
+  registry[ACTIVE_DELIVERY] = handle;
+  return handle;
+}
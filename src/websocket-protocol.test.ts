@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { PROTOCOL_VERSION, ProtocolError, parseClientMessage } from './websocket-protocol';
+
+const parse = (message: unknown) => parseClientMessage(JSON.stringify(message));
+
+// The error a message is rejected with
+function rejection(raw: string): ProtocolError {
+  try {
+    parseClientMessage(raw);
+  } catch (error) {
+    if (error instanceof ProtocolError) return error;
+    throw error;
+  }
+  throw new Error(`Expected ${raw} to be rejected`);
+}
+
+describe('parseClientMessage', () => {
+  it('parses a subscribe with one event type or a list', () => {
+    expect(parse({ type: 'subscribe', events: 'block' })).toMatchObject({ type: 'subscribe', events: ['block'] });
+    expect(parse({ type: 'subscribe', id: 7, events: ['block', 'transaction'] })).toMatchObject({
+      type: 'subscribe',
+      id: 7,
+      events: ['block', 'transaction']
+    });
+  });
+
+  it('resolves chains by name or id', () => {
+    const message = parse({ type: 'subscribe', events: ['block'], chains: ['monad_testnet', 10143] });
+    expect(message).toMatchObject({ chains: new Set([10143]) });
+  });
+
+  it('parses filters', () => {
+    const from = '0x00000000000000000000000000000000000A11CE';
+    const message = parse({ type: 'subscribe', events: ['transaction'], filters: { from } });
+    expect(message).toMatchObject({ filter: { from: new Set([from.toLowerCase()]) } });
+  });
+
+  it('parses unsubscribe, list and ping', () => {
+    expect(parse({ type: 'unsubscribe', id: 'a' })).toEqual({ type: 'unsubscribe', id: 'a', events: undefined });
+    expect(parse({ type: 'unsubscribe', events: ['block'] })).toMatchObject({ events: ['block'] });
+    expect(parse({ type: 'list' })).toEqual({ type: 'list', id: undefined });
+    expect(parse({ type: 'ping', id: 1, protocolVersion: PROTOCOL_VERSION })).toEqual({ type: 'ping', id: 1 });
+  });
+
+  it.each([
+    ['not JSON', '{', 'INVALID_JSON'],
+    ['not an object', '[1]', 'INVALID_MESSAGE'],
+    ['an unknown type', '{"type":"hello"}', 'UNKNOWN_MESSAGE_TYPE'],
+    ['another protocol version', '{"type":"ping","protocolVersion":99}', 'UNSUPPORTED_VERSION'],
+    ['a subscribe without events', '{"type":"subscribe"}', 'INVALID_MESSAGE'],
+    ['an empty event list', '{"type":"subscribe","events":[]}', 'INVALID_MESSAGE'],
+    ['an unknown event type', '{"type":"subscribe","events":["blocks"]}', 'UNKNOWN_EVENT_TYPE'],
+    ['an unknown chain', '{"type":"subscribe","events":["block"],"chains":["ethereum"]}', 'UNKNOWN_CHAIN'],
+    ['an invalid filter', '{"type":"subscribe","events":["block"],"filters":{"from":"0x1"}}', 'INVALID_FILTER']
+  ])('rejects %s', (_, raw, code) => {
+    expect(rejection(raw).code).toBe(code);
+  });
+
+  it('echoes the request id on errors', () => {
+    expect(rejection('{"type":"subscribe","id":"req-1","events":["nope"]}').id).toBe('req-1');
+    expect(rejection('{"type":"subscribe","id":{},"events":["nope"]}').id).toBeUndefined();
+  });
+});
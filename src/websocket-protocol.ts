@@ -0,0 +1,210 @@
+import { findChain } from '../chains';
+import { BACKPRESSURE_POLICIES, type BackpressurePolicy } from './send-queue';
+import { parseSubscriptionFilter, type SubscriptionFilter } from './subscription-filters';
+
+// Client-to-server messages of the WebSocket protocol.
+//
+// Every message is a JSON object with a `type`. An optional `id` is echoed on
+// the reply so clients can match requests to responses, and an optional
+// `protocolVersion` is checked against PROTOCOL_VERSION. Messages are fully
+// validated here, so a rejected request never changes a client's state.
+
+// Bumped on breaking changes; announced in the `welcome` message
+export const PROTOCOL_VERSION = 1;
+
+export const EVENT_TYPES = [
+  'block',
+  'transaction',
+  'monTransfer',
+  'monWalletActivity',
+  'contractUsage',
+  'walletContractInteraction',
+  'walletGasUsage',
+  'networkStats',
+  'reorg',
+  'blockFinalized',
+  'alert'
+] as const;
+
+export type EventType = (typeof EVENT_TYPES)[number];
+
+export type ProtocolErrorCode =
+  | 'INVALID_JSON'
+  | 'INVALID_MESSAGE'
+  | 'UNKNOWN_MESSAGE_TYPE'
+  | 'UNKNOWN_EVENT_TYPE'
+  | 'UNKNOWN_CHAIN'
+  | 'INVALID_FILTER'
+  | 'UNSUPPORTED_VERSION'
+  | 'INTERNAL_ERROR';
+
+export class ProtocolError extends Error {
+  constructor(
+    readonly code: ProtocolErrorCode,
+    message: string,
+    readonly id?: string | number
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+type RequestId = string | number | undefined;
+
+// Where a reconnecting client left off; see event-replay.ts
+export interface ReplayRequest {
+  sinceSeq?: number; // Last `seq` received
+  streamId?: string; // `streamId` from the welcome message the seq belongs to
+  fromBlock?: bigint; // First block to replay, used when sinceSeq is not buffered
+}
+
+export type ClientMessage =
+  | {
+      type: 'subscribe';
+      id: RequestId;
+      events: EventType[];
+      chains?: Set<number>;
+      filter?: SubscriptionFilter;
+      replay?: ReplayRequest;
+      backpressure?: BackpressurePolicy; // What to do when this client falls behind
+      batch?: boolean; // One frame per block instead of one per event
+    }
+  | { type: 'unsubscribe'; id: RequestId; events?: EventType[] } // No events = everything
+  | { type: 'list'; id: RequestId }
+  | { type: 'ping'; id: RequestId };
+
+// One value or a list of values
+function toList(value: unknown): readonly unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function parseEvents(raw: unknown, id: RequestId): EventType[] {
+  const events = toList(raw);
+  if (events.length === 0) {
+    throw new ProtocolError('INVALID_MESSAGE', 'events must name at least one event type', id);
+  }
+  for (const event of events) {
+    if (!EVENT_TYPES.includes(event as EventType)) {
+      throw new ProtocolError(
+        'UNKNOWN_EVENT_TYPE',
+        `Unknown event type ${JSON.stringify(event)}. Valid types: ${EVENT_TYPES.join(', ')}`,
+        id
+      );
+    }
+  }
+  return events as EventType[];
+}
+
+function parseChains(raw: unknown, id: RequestId): Set<number> {
+  const chainIds = new Set<number>();
+  for (const nameOrId of toList(raw)) {
+    const chain = typeof nameOrId === 'string' || typeof nameOrId === 'number' ? findChain(String(nameOrId)) : undefined;
+    if (!chain) {
+      throw new ProtocolError('UNKNOWN_CHAIN', `Unknown chain ${JSON.stringify(nameOrId)}`, id);
+    }
+    chainIds.add(chain.id);
+  }
+  return chainIds;
+}
+
+function parseReplay(message: Record<string, unknown>, id: RequestId): ReplayRequest | undefined {
+  const { sinceSeq, fromBlock, streamId } = message;
+  if (sinceSeq === undefined && fromBlock === undefined) return undefined;
+
+  if (sinceSeq !== undefined && (typeof sinceSeq !== 'number' || !Number.isSafeInteger(sinceSeq) || sinceSeq < 0)) {
+    throw new ProtocolError('INVALID_MESSAGE', 'sinceSeq must be a non-negative integer', id);
+  }
+  if (
+    fromBlock !== undefined &&
+    ((typeof fromBlock !== 'string' && typeof fromBlock !== 'number') || !/^\d+$/.test(String(fromBlock)))
+  ) {
+    throw new ProtocolError('INVALID_MESSAGE', 'fromBlock must be a non-negative integer', id);
+  }
+  if (streamId !== undefined && typeof streamId !== 'string') {
+    throw new ProtocolError('INVALID_MESSAGE', 'streamId must be a string', id);
+  }
+  return {
+    sinceSeq: sinceSeq as number | undefined,
+    streamId: streamId as string | undefined,
+    fromBlock: fromBlock === undefined ? undefined : BigInt(fromBlock)
+  };
+}
+
+export function parseClientMessage(raw: string): ClientMessage {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('INVALID_JSON', 'Message is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new ProtocolError('INVALID_MESSAGE', 'Message must be a JSON object');
+  }
+
+  const message = data as Record<string, unknown>;
+  const id = typeof message.id === 'string' || typeof message.id === 'number' ? message.id : undefined;
+
+  if (message.protocolVersion !== undefined && message.protocolVersion !== PROTOCOL_VERSION) {
+    throw new ProtocolError(
+      'UNSUPPORTED_VERSION',
+      `Unsupported protocol version ${JSON.stringify(message.protocolVersion)}; this server speaks ${PROTOCOL_VERSION}`,
+      id
+    );
+  }
+
+  switch (message.type) {
+    case 'subscribe': {
+      if (message.events === undefined) {
+        throw new ProtocolError('INVALID_MESSAGE', 'subscribe requires events', id);
+      }
+      const events = parseEvents(message.events, id);
+      const chains = message.chains === undefined ? undefined : parseChains(message.chains, id);
+      let filter: SubscriptionFilter | undefined;
+      if (message.filters !== undefined) {
+        try {
+          filter = parseSubscriptionFilter(message.filters);
+        } catch (error) {
+          throw new ProtocolError('INVALID_FILTER', (error as Error).message, id);
+        }
+      }
+      if (
+        message.backpressure !== undefined &&
+        !BACKPRESSURE_POLICIES.includes(message.backpressure as BackpressurePolicy)
+      ) {
+        throw new ProtocolError(
+          'INVALID_MESSAGE',
+          `backpressure must be one of: ${BACKPRESSURE_POLICIES.join(', ')}`,
+          id
+        );
+      }
+      if (message.batch !== undefined && typeof message.batch !== 'boolean') {
+        throw new ProtocolError('INVALID_MESSAGE', 'batch must be true or false', id);
+      }
+      return {
+        type: 'subscribe',
+        id,
+        events,
+        chains,
+        filter,
+        replay: parseReplay(message, id),
+        backpressure: message.backpressure as BackpressurePolicy | undefined,
+        batch: message.batch
+      };
+    }
+    case 'unsubscribe':
+      return {
+        type: 'unsubscribe',
+        id,
+        events: message.events === undefined ? undefined : parseEvents(message.events, id)
+      };
+    case 'list':
+    case 'ping':
+      return { type: message.type, id };
+    default:
+      throw new ProtocolError(
+        'UNKNOWN_MESSAGE_TYPE',
+        `Unknown message type ${JSON.stringify(message.type)}. Valid types: subscribe, unsubscribe, list, ping`,
+        id
+      );
+  }
+}
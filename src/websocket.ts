@@ -1,20 +1,89 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import http, { type IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { chains } from '../chains';
+import { acquireConnection, extractApiKey } from './api-keys';
+import {
+  EventBuffer,
+  isDatabaseReplayAvailable,
+  loadTransactionEvents,
+  type BlockRange
+} from './event-replay';
+import { logger } from './logger';
+import { websocketEventsBroadcast } from './metrics';
+import { BACKPRESSURE_POLICIES, SendQueue, type BackpressurePolicy, type SendQueueStats } from './send-queue';
+import { describeSubscriptionFilter, matchesSubscriptionFilter, type SubscriptionFilter } from './subscription-filters';
+import {
+  EVENT_TYPES,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  parseClientMessage,
+  type ClientMessage,
+  type EventType,
+  type ReplayRequest
+} from './websocket-protocol';
+
+export { EVENT_TYPES, PROTOCOL_VERSION, type EventType };
+
+const log = logger.child({ module: 'websocket' });
 
 // TPS calculation configuration
 const TPS_WINDOW_BLOCKS = parseInt(process.env.TPS_WINDOW_BLOCKS || '100');
 
+// Blocks this deep below the tracked head are reported as finalized
+const FINALITY_DEPTH = BigInt(process.env.FINALITY_DEPTH || '2');
+
+// Clients are pinged this often and dropped if they miss a pong
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.WS_HEARTBEAT_INTERVAL_MS || '30000');
+
+// Recent events kept for clients resuming after a reconnect
+const REPLAY_BUFFER_SIZE = parseInt(process.env.WS_REPLAY_BUFFER_SIZE || '10000');
+
+// Per-client backpressure: socket buffer size above which messages are queued,
+// queued events before the client's policy applies, and an optional rate limit
+const HIGH_WATER_MARK_BYTES = parseInt(process.env.WS_HIGH_WATER_MARK_BYTES || String(1024 * 1024));
+const MAX_QUEUED_MESSAGES = parseInt(process.env.WS_MAX_QUEUED_MESSAGES || '1000');
+const MAX_MESSAGES_PER_SECOND = parseInt(process.env.WS_MAX_MESSAGES_PER_SECOND || '0');
+const DEFAULT_BACKPRESSURE = (process.env.WS_BACKPRESSURE_POLICY || 'drop-oldest') as BackpressurePolicy;
+
+// permessage-deflate for clients that offer it; frames below the threshold are sent as-is
+const COMPRESSION_ENABLED = process.env.WS_COMPRESSION === 'true';
+const COMPRESSION_THRESHOLD_BYTES = parseInt(process.env.WS_COMPRESSION_THRESHOLD_BYTES || '1024');
+
+// How the streaming server is exposed:
+//   standalone - its own HTTP server on WS_HOST:WS_PORT (default 8080)
+//   api        - an upgrade route on the Ponder HTTP server, next to REST and GraphQL
+//   off        - not served; events are still buffered for replay
+export type WebSocketMode = 'standalone' | 'api' | 'off';
+
 // Block tracking for TPS calculation
 interface BlockInfo {
   number: bigint;
+  hash: string;
+  parentHash: string;
   timestamp: bigint;
   transactionCount: number;
 }
 
-const recentBlocks: BlockInfo[] = [];
+// Recent blocks per chain id
+const recentBlocksByChain = new Map<number, BlockInfo[]>();
+
+// Per chain, the last block announced with a blockFinalized event
+const finalizedByChain = new Map<number, bigint>();
+
+function getRecentBlocks(chainId: number): BlockInfo[] {
+  let recentBlocks = recentBlocksByChain.get(chainId);
+  if (!recentBlocks) {
+    recentBlocks = [];
+    recentBlocksByChain.set(chainId, recentBlocks);
+  }
+  return recentBlocks;
+}
 
 // Function to calculate TPS
-function calculateTPS(): number {
+function calculateTPS(recentBlocks: BlockInfo[]): number {
   if (recentBlocks.length < 2) return 0;
   
   const oldestBlock = recentBlocks[0];
@@ -33,8 +102,42 @@ function calculateTPS(): number {
 }
 
 // Function to update block tracking
-export function updateBlockTracking(blockNumber: bigint, timestamp: bigint, transactionCount: number) {
-  recentBlocks.push({ number: blockNumber, timestamp, transactionCount });
+export function updateBlockTracking(
+  chainId: number,
+  blockNumber: bigint,
+  hash: string,
+  parentHash: string,
+  timestamp: bigint,
+  transactionCount: number
+) {
+  const recentBlocks = getRecentBlocks(chainId);
+  const orphaned = rollbackOrphanedBlocks(recentBlocks, blockNumber, hash, parentHash);
+
+  if (orphaned.length > 0) {
+    // A reorg deeper than FINALITY_DEPTH replaces blocks already announced as final
+    const lowest = orphaned[orphaned.length - 1]!.number;
+    const announced = finalizedByChain.get(chainId);
+    if (announced !== undefined && announced >= lowest) finalizedByChain.set(chainId, lowest - 1n);
+
+    eventEmitter.emit({
+      type: 'reorg',
+      chainId,
+      blockNumber,
+      data: {
+        invalidatedBlocks: orphaned.map((block) => ({ number: block.number, hash: block.hash })),
+        newHead: { number: blockNumber, hash },
+        depth: orphaned.length
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  // Re-processing the block we already hold as head is a no-op
+  const head = recentBlocks[recentBlocks.length - 1];
+  if (head?.hash === hash) return;
+
+  recentBlocks.push({ number: blockNumber, hash, parentHash, timestamp, transactionCount });
+  announceFinalizedBlocks(chainId, recentBlocks, blockNumber);
   
   // Keep only the configured window of blocks
   while (recentBlocks.length > TPS_WINDOW_BLOCKS) {
@@ -42,16 +145,64 @@ export function updateBlockTracking(blockNumber: bigint, timestamp: bigint, tran
   }
 }
 
-// Define event types
-export type EventType = 
-  | 'block'
-  | 'transaction'
-  | 'monTransfer'
-  | 'monWalletActivity'
-  | 'contractUsage'
-  | 'walletContractInteraction'
-  | 'walletGasUsage'
-  | 'networkStats';
+// Events go out as `pending`; once a block is FINALITY_DEPTH below the new head,
+// a blockFinalized event tells clients its events are final. Each tracked block
+// is announced once, oldest first.
+function announceFinalizedBlocks(chainId: number, recentBlocks: BlockInfo[], headNumber: bigint) {
+  const finalizedThrough = headNumber - FINALITY_DEPTH;
+  const announced = finalizedByChain.get(chainId);
+  for (const block of recentBlocks) {
+    if (block.number > finalizedThrough) break;
+    if (announced !== undefined && block.number <= announced) continue;
+    finalizedByChain.set(chainId, block.number);
+    eventEmitter.emit({
+      type: 'blockFinalized',
+      chainId,
+      blockNumber: block.number,
+      data: { number: block.number, hash: block.hash },
+      timestamp: Date.now()
+    });
+  }
+}
+
+// Drop tracked blocks that are no longer on the canonical chain, newest first.
+// A block is orphaned when it sits at or above the incoming block's height, or
+// when it is the direct parent height but its hash does not match parentHash.
+function rollbackOrphanedBlocks(
+  recentBlocks: BlockInfo[],
+  blockNumber: bigint,
+  hash: string,
+  parentHash: string
+): BlockInfo[] {
+  const orphaned: BlockInfo[] = [];
+
+  let head = recentBlocks[recentBlocks.length - 1];
+  while (head) {
+    if (head.number === blockNumber && head.hash === hash) break;
+
+    const isAhead = head.number >= blockNumber;
+    const isWrongParent = head.number === blockNumber - 1n && head.hash !== parentHash;
+    if (!isAhead && !isWrongParent) break;
+
+    orphaned.push(head);
+    recentBlocks.pop();
+    head = recentBlocks[recentBlocks.length - 1];
+  }
+
+  return orphaned;
+}
+
+// Events for blocks close to the tracked head may still be reorged out
+function getFinalityStatus(chainId: number | undefined, blockNumber: bigint | undefined): EventStatus {
+  if (chainId === undefined || blockNumber === undefined) return 'pending';
+  const recentBlocks = getRecentBlocks(chainId);
+  const head = recentBlocks[recentBlocks.length - 1];
+  if (!head) return 'pending';
+  return head.number - blockNumber >= FINALITY_DEPTH ? 'finalized' : 'pending';
+}
+
+// Whether an event's block is buried deep enough to be considered final
+export type EventStatus = 'finalized' | 'pending';
 
 // Define event data types
 export interface BlockEvent {
@@ -126,6 +277,32 @@ export interface NetworkStatsEvent {
   windowSize: number;
 }
 
+export interface ReorgEvent {
+  invalidatedBlocks: { number: bigint; hash: string }[];
+  newHead: { number: bigint; hash: string };
+  depth: number;
+}
+
+// A block now FINALITY_DEPTH below the head; its events are final
+export interface BlockFinalizedEvent {
+  number: bigint;
+  hash: string;
+}
+
+// An alert raised by a rule in alert-rules.ts, as stored in the alerts table
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  kind: string;
+  severity: string;
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+  address: string | null; // Wallet or contract the alert is about
+  transactionHash: string | null;
+  message: string;
+  details: Record<string, string | number>;
+}
+
 export type EventData = 
   | BlockEvent
   | TransactionEvent
@@ -134,12 +311,20 @@ export type EventData =
   | ContractUsageEvent
   | WalletContractInteractionEvent
   | WalletGasUsageEvent
-  | NetworkStatsEvent;
+  | NetworkStatsEvent
+  | ReorgEvent
+  | BlockFinalizedEvent
+  | AlertEvent;
 
 export interface Event {
   type: EventType;
   data: EventData;
   timestamp: number;
+  chainId?: number; // Chain the event was indexed from
+  blockNumber?: bigint; // Block the event was derived from
+  status?: EventStatus; // Set on broadcast
+  seq?: number; // Position in this server's event stream, set on broadcast
+  coalesced?: number; // Number of events merged into this one for a slow client
 }
 
 // Custom event emitter class
@@ -180,83 +365,322 @@ function serializeWithBigInt(obj: any): string {
   );
 }
 
-// Create WebSocket server
-const wss = new WebSocketServer({ port: 8080 });
+// Sequence numbers restart with the server; streamId tells clients which run a seq came from
+const STREAM_ID = randomUUID();
+let latestSeq = 0;
+
+const replayBuffer = new EventBuffer(REPLAY_BUFFER_SIZE);
+
+// Per-client subscription state
+interface ClientState {
+  id: number;
+  remoteAddress?: string;
+  apiKey?: string; // Name of the key the client connected with
+  queue: SendQueue; // Everything sent to the client goes through here
+  events: Set<EventType>;
+  chains: Set<number>; // Empty = all chains
+  filter: SubscriptionFilter;
+  alive: boolean; // Answered the last heartbeat ping
+  pending?: Event[]; // Live events held back while a replay is running
+  batch?: Map<number, Event[]>; // Batch mode: per chain, the block frame being collected
+}
+
+const clients = new Map<WebSocket, ClientState>();
+
+let nextClientId = 1;
+
+// API key name per accepted handshake, picked up by handleConnection
+const connectionKeys = new WeakMap<IncomingMessage, string>();
+
+// Messages dropped for clients that have since disconnected
+let droppedByDisconnectedClients = 0;
+
+// Whether a client is subscribed to this event type on this event's chain,
+// and the event passes the client's filters
+function isSubscribed(client: WebSocket, event: Event): boolean {
+  const state = clients.get(client);
+  if (!state?.events.has(event.type)) return false;
+  if (state.chains.size > 0 && event.chainId !== undefined && !state.chains.has(event.chainId)) return false;
+  return matchesSubscriptionFilter(state.filter, event);
+}
+
+// Reply to one client; bigints are sent as strings
+function send(ws: WebSocket, message: Record<string, unknown>) {
+  clients.get(ws)?.queue.sendMessage(serializeWithBigInt(message));
+}
+
+function describeSubscriptions(state: ClientState) {
+  return {
+    events: Array.from(state.events),
+    chains: Array.from(state.chains),
+    filters: describeSubscriptionFilter(state.filter),
+    batch: state.batch !== undefined
+  };
+}
 
-// Track client subscriptions
-const clientSubscriptions = new Map<WebSocket, Set<EventType>>();
+function handleMessage(ws: WebSocket, state: ClientState, message: ClientMessage) {
+  switch (message.type) {
+    case 'subscribe':
+      if (message.replay && state.pending) {
+        throw new ProtocolError('INVALID_MESSAGE', 'A replay is already in progress', message.id);
+      }
+      message.events.forEach((eventType) => state.events.add(eventType));
+      if (message.chains) state.chains = message.chains;
+      // Filters replace any previous ones; `filters: {}` clears them
+      if (message.filter) state.filter = message.filter;
+      if (message.backpressure) state.queue.policy = message.backpressure;
+      if (message.batch === true) {
+        state.batch ??= new Map();
+      } else if (message.batch === false && state.batch) {
+        state.batch.forEach((_, chainId) => flushBatch(state, chainId));
+        state.batch = undefined;
+      }
+      send(ws, { type: 'subscribed', id: message.id, ...describeSubscriptions(state) });
+      if (message.replay) {
+        void replay(ws, state, message.replay, message.id);
+      }
+      break;
+    case 'unsubscribe':
+      if (message.events) {
+        message.events.forEach((eventType) => state.events.delete(eventType));
+      } else {
+        state.events.clear();
+        state.chains = new Set();
+        state.filter = {};
+      }
+      send(ws, { type: 'unsubscribed', id: message.id, ...describeSubscriptions(state) });
+      break;
+    case 'list':
+      send(ws, {
+        type: 'subscriptions',
+        id: message.id,
+        ...describeSubscriptions(state),
+        delivery: state.queue.getStats()
+      });
+      break;
+    case 'ping':
+      send(ws, { type: 'pong', id: message.id, timestamp: Date.now() });
+      break;
+  }
+}
+
+// Serialize an event with its current finality status
+function serializeEvent(event: Event, replayed = false): string {
+  return serializeWithBigInt({
+    ...event,
+    status: getFinalityStatus(event.chainId, event.blockNumber),
+    ...(replayed ? { replayed: true } : {})
+  });
+}
+
+// Events a resuming client missed: from the buffer when its sinceSeq is still
+// held there, otherwise from fromBlock via the transactions table and the buffer
+async function collectMissedEvents(state: ClientState, request: ReplayRequest) {
+  const sameStream = request.streamId === undefined || request.streamId === STREAM_ID;
+  if (request.sinceSeq !== undefined && sameStream && replayBuffer.coversSeq(request.sinceSeq, latestSeq)) {
+    return { events: replayBuffer.since(request.sinceSeq), source: 'buffer', gap: false, truncated: false };
+  }
+  if (request.fromBlock === undefined) {
+    // Nothing to resume from: the client missed events we no longer have
+    return { events: [], source: 'none', gap: request.sinceSeq !== undefined, truncated: false };
+  }
+
+  // Blocks older than what the buffer fully holds come from the database
+  const fromBlock = request.fromBlock;
+  const chainIds = state.chains.size > 0 ? Array.from(state.chains) : chains.map((chain) => chain.id);
+  const ranges: BlockRange[] = [];
+  const bufferStart = new Map<number, bigint>();
+  for (const chainId of chainIds) {
+    const covered = replayBuffer.coveredFromBlock(chainId);
+    if (covered === undefined || fromBlock < covered) {
+      ranges.push({ chainId, fromBlock, toBlock: covered });
+    }
+    bufferStart.set(chainId, covered !== undefined && covered > fromBlock ? covered : fromBlock);
+  }
+
+  let stored: Event[] = [];
+  let truncated = false;
+  let source = 'buffer';
+  // Only transactions are persisted, so other missed event types are lost
+  let gap = ranges.length > 0 && Array.from(state.events).some((type) => type !== 'transaction');
+  if (ranges.length > 0 && state.events.has('transaction')) {
+    if (isDatabaseReplayAvailable()) {
+      ({ events: stored, truncated } = await loadTransactionEvents(ranges, state.filter));
+      source = 'database';
+    } else {
+      gap = true;
+    }
+  }
+
+  return {
+    events: [...stored, ...replayBuffer.fromBlocks(bufferStart)],
+    source,
+    gap,
+    truncated
+  };
+}
 
-// Broadcast network stats every second
-setInterval(() => {
-  if (recentBlocks.length > 0) {
+// Send missed events, then the live events that arrived meanwhile
+async function replay(ws: WebSocket, state: ClientState, request: ReplayRequest, id: string | number | undefined) {
+  state.pending = [];
+  let result;
+  try {
+    result = await collectMissedEvents(state, request);
+  } catch (error) {
+    log.error('Replay failed', { clientId: state.id, error });
+    result = { events: [], source: 'none', gap: true, truncated: false };
+  }
+
+  // Everything up to here was either replayed or is in `pending`
+  const replayedThrough = latestSeq;
+  let count = 0;
+  // Batch clients get replayed events grouped per block as well
+  let group: Event[] = [];
+  const sendGroup = () => {
+    if (group.length > 0) state.queue.sendMessage(serializeBatch(group, true));
+    group = [];
+  };
+  for (const event of result.events) {
+    if (event.seq !== undefined && event.seq > replayedThrough) continue;
+    if (!isSubscribed(ws, event)) continue;
+    if (state.batch && isBatched(event)) {
+      if (group[0] && !sameBlock(group[0], event)) sendGroup();
+      group.push(event);
+    } else {
+      sendGroup();
+      state.queue.sendMessage(serializeEvent(event, true));
+    }
+    count++;
+  }
+  sendGroup();
+  send(ws, {
+    type: 'replayComplete',
+    id,
+    replayed: count,
+    source: result.source,
+    lastSeq: replayedThrough,
+    gap: result.gap,
+    truncated: result.truncated
+  });
+
+  const pending = state.pending;
+  state.pending = undefined;
+  for (const event of pending) {
+    if ((event.seq ?? 0) > replayedThrough) {
+      deliver(state, event, serializeEvent(event));
+    }
+  }
+  flushCompletedBatches(state);
+}
+
+// Heartbeat: terminate clients that did not answer the previous ping
+function checkHeartbeats() {
+  clients.forEach((state, ws) => {
+    if (!state.alive) {
+      log.info('Evicting unresponsive client', { clientId: state.id, remoteAddress: state.remoteAddress });
+      ws.terminate();
+      return;
+    }
+    state.alive = false;
+    ws.ping();
+  });
+}
+
+// Broadcast network stats, one event per chain
+function broadcastNetworkStats() {
+  recentBlocksByChain.forEach((recentBlocks, chainId) => {
     const latestBlock = recentBlocks[recentBlocks.length - 1];
     if (latestBlock) {
       const networkStats: NetworkStatsEvent = {
         blockNumber: latestBlock.number,
-        tps: calculateTPS(),
+        tps: calculateTPS(recentBlocks),
         windowSize: TPS_WINDOW_BLOCKS
       };
 
       const event: Event = {
         type: 'networkStats',
+        chainId,
+        blockNumber: latestBlock.number,
         data: networkStats,
         timestamp: Date.now()
       };
 
-      // Broadcast to all clients subscribed to networkStats
-      wss.clients.forEach((client) => {
-        if (client.readyState === WebSocket.OPEN) {
-          const subscriptions = clientSubscriptions.get(client);
-          if (subscriptions?.has('networkStats')) {
-            client.send(serializeWithBigInt(event));
-          }
-        }
-      });
+      broadcastEvent(event);
     }
-  }
-}, 1000);
+  });
+}
 
 // Handle WebSocket connections
-wss.on('connection', (ws) => {
-  console.log('New WebSocket client connected');
-  
-  // Initialize empty subscriptions set for this client
-  clientSubscriptions.set(ws, new Set());
+function handleConnection(ws: WebSocket, request?: IncomingMessage) {
+  const state: ClientState = {
+    id: nextClientId++,
+    remoteAddress: request?.socket.remoteAddress,
+    apiKey: request ? connectionKeys.get(request) : undefined,
+    queue: new SendQueue(ws, {
+      highWaterMarkBytes: HIGH_WATER_MARK_BYTES,
+      maxQueued: MAX_QUEUED_MESSAGES,
+      maxPerSecond: MAX_MESSAGES_PER_SECOND,
+      policy: DEFAULT_BACKPRESSURE,
+      serialize: (event) => serializeEvent(event)
+    }),
+    events: new Set(),
+    chains: new Set(),
+    filter: {},
+    alive: true
+  };
+  clients.set(ws, state);
+  log.debug('Client connected', {
+    clientId: state.id,
+    remoteAddress: state.remoteAddress,
+    apiKey: state.apiKey,
+    clients: clients.size
+  });
+
+  // Handshake: protocol version and what can be subscribed to
+  send(ws, {
+    type: 'welcome',
+    protocolVersion: PROTOCOL_VERSION,
+    streamId: STREAM_ID,
+    seq: latestSeq,
+    events: EVENT_TYPES,
+    heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS,
+    compression: ws.extensions.includes('permessage-deflate') ? 'permessage-deflate' : null
+  });
+
+  ws.on('pong', () => {
+    state.alive = true;
+  });
 
   // Handle client messages
-  ws.on('message', (message) => {
+  ws.on('message', (raw) => {
+    state.alive = true;
     try {
-      const data = JSON.parse(message.toString());
-      
-      // Handle subscription requests
-      if (data.type === 'subscribe') {
-        const eventTypes = Array.isArray(data.events) ? data.events : [data.events];
-        const subscriptions = clientSubscriptions.get(ws) || new Set();
-        
-        // Add new subscriptions
-        eventTypes.forEach((eventType: EventType) => {
-          subscriptions.add(eventType);
-        });
-        
-        clientSubscriptions.set(ws, subscriptions);
-        
-        // Send confirmation
-        ws.send(JSON.stringify({ 
-          type: 'subscribed', 
-          events: Array.from(subscriptions)
-        }));
-      }
+      handleMessage(ws, state, parseClientMessage(raw.toString()));
     } catch (error) {
-      console.error('Error handling WebSocket message:', error);
+      if (error instanceof ProtocolError) {
+        send(ws, { type: 'error', id: error.id, code: error.code, message: error.message });
+      } else {
+        log.error('Error handling client message', { clientId: state.id, error });
+        send(ws, { type: 'error', code: 'INTERNAL_ERROR', message: 'Internal server error' });
+      }
     }
   });
 
   // Handle client disconnection
   ws.on('close', () => {
-    console.log('WebSocket client disconnected');
-    clientSubscriptions.delete(ws);
+    const { dropped } = state.queue.getStats();
+    // Connects and disconnects are routine; a client that lost messages is not
+    if (dropped > 0) {
+      log.warn('Client disconnected after dropped messages', { clientId: state.id, apiKey: state.apiKey, dropped });
+    } else {
+      log.debug('Client disconnected', { clientId: state.id, clients: clients.size - 1 });
+    }
+    droppedByDisconnectedClients += dropped;
+    state.queue.clear();
+    state.batch = undefined;
+    clients.delete(ws);
   });
-});
+}
 
 // Handle events from the indexer
 eventEmitter.on('block', (event: Event) => {
@@ -287,16 +711,356 @@ eventEmitter.on('walletGasUsage', (event: Event) => {
   broadcastEvent(event);
 });
 
-// Helper function to broadcast events to subscribed clients
+eventEmitter.on('reorg', (event: Event) => {
+  broadcastEvent(event);
+});
+
+eventEmitter.on('blockFinalized', (event: Event) => {
+  broadcastEvent(event);
+});
+
+eventEmitter.on('alert', (event: Event) => {
+  broadcastEvent(event);
+});
+
+// Every broadcast event gets the next sequence number and, except for the
+// periodic networkStats snapshots, a place in the replay buffer
 function broadcastEvent(event: Event) {
-  wss.clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
-      const subscriptions = clientSubscriptions.get(client);
-      if (subscriptions?.has(event.type)) {
-        client.send(serializeWithBigInt(event));
-      }
+  websocketEventsBroadcast.inc({ type: event.type });
+  const sequenced: Event = { ...event, seq: ++latestSeq };
+  if (sequenced.type !== 'networkStats') {
+    replayBuffer.push(sequenced);
+  }
+
+  const message = serializeEvent(sequenced);
+  clients.forEach((state, client) => {
+    if (client.readyState !== WebSocket.OPEN || !isSubscribed(client, sequenced)) return;
+    if (state.pending) {
+      state.pending.push(sequenced);
+    } else {
+      deliver(state, sequenced, message);
+    }
+  });
+}
+
+// ==============================================
+// BLOCK BATCHES
+// ==============================================
+
+// Batch clients get one frame per block instead of one per event. The indexer
+// emits a block's events together and then calls completeBlock(); reorgs,
+// finality notices, networkStats and alerts (raised after the block is
+// written) are still sent on their own.
+const BATCHED_EVENT_TYPES = new Set<EventType>([
+  'block',
+  'transaction',
+  'monTransfer',
+  'monWalletActivity',
+  'contractUsage',
+  'walletContractInteraction',
+  'walletGasUsage'
+]);
+
+// Per chain, the last block whose events have all been emitted
+const completedBlocks = new Map<number, bigint>();
+
+function isBatched(event: Event): boolean {
+  return BATCHED_EVENT_TYPES.has(event.type) && event.chainId !== undefined && event.blockNumber !== undefined;
+}
+
+function sameBlock(a: Event, b: Event): boolean {
+  return a.chainId === b.chainId && a.blockNumber === b.blockNumber;
+}
+
+// One block's events as a single frame, data grouped by event type. `seq` is
+// the last event's, so clients can resume from it.
+function serializeBatch(events: Event[], replayed = false): string {
+  const first = events[0]!;
+  const grouped: Partial<Record<EventType, EventData[]>> = {};
+  for (const event of events) {
+    (grouped[event.type] ??= []).push(event.data);
+  }
+  return serializeWithBigInt({
+    type: 'batch',
+    chainId: first.chainId,
+    blockNumber: first.blockNumber,
+    status: getFinalityStatus(first.chainId, first.blockNumber),
+    seq: events[events.length - 1]!.seq,
+    count: events.length,
+    events: grouped,
+    ...(replayed ? { replayed: true } : {})
+  });
+}
+
+function flushBatch(state: ClientState, chainId: number) {
+  const events = state.batch?.get(chainId);
+  if (!events) return;
+  state.batch!.delete(chainId);
+  state.queue.sendFrame(serializeBatch(events));
+}
+
+function flushCompletedBatches(state: ClientState) {
+  state.batch?.forEach((events, chainId) => {
+    const completed = completedBlocks.get(chainId);
+    if (completed !== undefined && events[0]!.blockNumber! <= completed) {
+      flushBatch(state, chainId);
+    }
+  });
+}
+
+// Send a live event, or add it to the client's frame for its block
+function deliver(state: ClientState, event: Event, message: string) {
+  if (!state.batch) {
+    state.queue.sendEvent(event, message);
+    return;
+  }
+  if (!isBatched(event)) {
+    // Keep order: whatever was collected for this chain goes out first
+    if (event.chainId !== undefined) flushBatch(state, event.chainId);
+    state.queue.sendEvent(event, message);
+    return;
+  }
+
+  const chainId = event.chainId!;
+  const open = state.batch.get(chainId);
+  if (open && !sameBlock(open[0]!, event)) {
+    // completeBlock() was not called for the previous block
+    flushBatch(state, chainId);
+  }
+  const frame = state.batch.get(chainId);
+  if (frame) {
+    frame.push(event);
+  } else {
+    state.batch.set(chainId, [event]);
+  }
+}
+
+// Called by the indexer once every event of a block has been emitted
+export function completeBlock(chainId: number, blockNumber: bigint) {
+  completedBlocks.set(chainId, blockNumber);
+  clients.forEach((state) => {
+    if (!state.pending) flushCompletedBatches(state);
+  });
+}
+
+// ==============================================
+// SERVER LIFECYCLE
+// ==============================================
+
+export interface WebSocketServerOptions {
+  mode?: WebSocketMode; // Default: WS_MODE, else standalone
+  port?: number; // Standalone only. Default: WS_PORT, else 8080
+  host?: string; // Standalone only. Default: WS_HOST, else all interfaces
+  path?: string; // Default: WS_PATH, else "/" standalone and "/ws" on the API
+}
+
+export interface WebSocketServerHandle {
+  mode: WebSocketMode;
+  path: string; // Where clients connect
+  healthPath: string; // `${path}/health`
+  ready: Promise<void>; // Resolves once the standalone server is listening
+  stop(): Promise<void>;
+}
+
+// Ponder's hot reload re-executes this module while the old instance's server
+// keeps running. The active server is therefore registered globally, and
+// starting a new one stops the previous one first.
+const ACTIVE_SERVER = Symbol.for('monad-ponder-indexer.websocket');
+const registry = globalThis as typeof globalThis & { [ACTIVE_SERVER]?: WebSocketServerHandle };
+
+const startedAt = Date.now();
+let wss: WebSocketServer | undefined;
+let activeMode: WebSocketMode = 'off';
+
+function resolveOptions(options: WebSocketServerOptions) {
+  const mode = options.mode ?? ((process.env.WS_MODE as WebSocketMode | undefined) || 'standalone');
+  if (mode !== 'standalone' && mode !== 'api' && mode !== 'off') {
+    throw new Error(`Invalid WS_MODE "${mode}". Expected standalone, api or off`);
+  }
+  if (!BACKPRESSURE_POLICIES.includes(DEFAULT_BACKPRESSURE)) {
+    throw new Error(`Invalid WS_BACKPRESSURE_POLICY "${DEFAULT_BACKPRESSURE}". Expected ${BACKPRESSURE_POLICIES.join(', ')}`);
+  }
+  const rawPath = options.path ?? (process.env.WS_PATH || (mode === 'api' ? '/ws' : '/'));
+  const path = `/${rawPath.replace(/^\/+|\/+$/g, '')}`;
+  return {
+    mode,
+    path,
+    healthPath: `${path === '/' ? '' : path}/health`,
+    port: options.port ?? parseInt(process.env.WS_PORT || '8080'),
+    host: options.host ?? (process.env.WS_HOST || undefined)
+  };
+}
+
+export interface WebSocketClientStats extends SendQueueStats {
+  id: number;
+  remoteAddress?: string;
+  apiKey?: string;
+}
+
+// Delivery counters for each connected client
+export function getWebSocketClientStats(): WebSocketClientStats[] {
+  return Array.from(clients.values()).map((state) => ({
+    id: state.id,
+    remoteAddress: state.remoteAddress,
+    apiKey: state.apiKey,
+    ...state.queue.getStats()
+  }));
+}
+
+// Snapshot for the public health endpoint: totals only, no per-client details
+export function getWebSocketHealth() {
+  const clientStats = getWebSocketClientStats();
+  return {
+    status: wss ? 'ok' : 'stopped',
+    mode: activeMode,
+    protocolVersion: PROTOCOL_VERSION,
+    streamId: STREAM_ID,
+    seq: latestSeq,
+    clients: clients.size,
+    compression: COMPRESSION_ENABLED,
+    queuedMessages: clientStats.reduce((sum, client) => sum + client.queued, 0),
+    droppedMessages: clientStats.reduce((sum, client) => sum + client.dropped, droppedByDisconnectedClients),
+    uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000)
+  };
+}
+
+// Answer a refused handshake with a plain HTTP error and close the socket
+function rejectUpgrade(socket: Duplex, status: number, code: string, message: string) {
+  const body = JSON.stringify({ success: false, error: message, code });
+  socket.end(
+    `HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\n` +
+      'Content-Type: application/json\r\n' +
+      `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+      'Connection: close\r\n\r\n' +
+      body
+  );
+}
+
+// Hand an HTTP upgrade request to the streaming server, after checking its API
+// key and connection quota. Returns false when streaming is not running, so
+// the caller can answer the request itself.
+export function upgradeWebSocket(request: IncomingMessage, socket: Duplex, head: Buffer = Buffer.alloc(0)): boolean {
+  const server = wss;
+  if (!server) return false;
+
+  const header = (name: string) => {
+    const value = request.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  const auth = acquireConnection(extractApiKey(header, request.url));
+  if (!auth.ok) {
+    rejectUpgrade(socket, auth.status, auth.code, auth.message);
+    return true;
+  }
+  // The slot is held until the socket closes, whether or not the upgrade succeeds
+  socket.once('close', auth.release);
+  if (auth.key) connectionKeys.set(request, auth.key.name);
+
+  server.handleUpgrade(request, socket, head, (ws) => server.emit('connection', ws, request));
+  return true;
+}
+
+function pathname(request: IncomingMessage): string {
+  return new URL(request.url ?? '/', 'http://localhost').pathname;
+}
+
+// Its own HTTP server: GET <path>/health, and WebSocket upgrades on <path>
+function listenStandalone(port: number, host: string | undefined, path: string, healthPath: string) {
+  const httpServer = http.createServer((req, res) => {
+    if (req.method === 'GET' && pathname(req) === healthPath) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(serializeWithBigInt(getWebSocketHealth()));
+    } else {
+      res.writeHead(pathname(req) === path ? 426 : 404).end();
+    }
+  });
+
+  httpServer.on('upgrade', (req, socket, head) => {
+    if (pathname(req) !== path || !upgradeWebSocket(req, socket, head)) {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
     }
   });
+
+  const ready = new Promise<void>((resolve) => {
+    httpServer.once('listening', () => {
+      log.info('Server started', { port, host });
+      resolve();
+    });
+    // Log rather than crash the indexer when the port is taken
+    httpServer.once('error', (error) => {
+      log.error('Server failed to listen', { port, host, error: error.message });
+      resolve();
+    });
+  });
+  httpServer.listen(port, host);
+
+  return { httpServer, ready };
+}
+
+export function startWebSocketServer(options: WebSocketServerOptions = {}): WebSocketServerHandle {
+  const { mode, path, healthPath, port, host } = resolveOptions(options);
+  const previous = registry[ACTIVE_SERVER];
+  const previousStopped = previous ? previous.stop() : Promise.resolve();
+
+  const server =
+    mode === 'off'
+      ? undefined
+      : new WebSocketServer({
+          noServer: true,
+          perMessageDeflate: COMPRESSION_ENABLED ? { threshold: COMPRESSION_THRESHOLD_BYTES } : false
+        });
+  let timers: NodeJS.Timeout[] = [];
+  let httpServer: http.Server | undefined;
+  let ready = previousStopped;
+
+  wss = server;
+  activeMode = mode;
+  if (server) {
+    server.on('connection', handleConnection);
+    timers = [setInterval(checkHeartbeats, HEARTBEAT_INTERVAL_MS), setInterval(broadcastNetworkStats, 1000)];
+
+    if (mode === 'standalone') {
+      // The previous server may still hold the port
+      ready = previousStopped.then(() => {
+        const standalone = listenStandalone(port, host, path, healthPath);
+        httpServer = standalone.httpServer;
+        return standalone.ready;
+      });
+    }
+  }
+
+  const handle: WebSocketServerHandle = {
+    mode,
+    path,
+    healthPath,
+    ready,
+    async stop() {
+      timers.forEach(clearInterval);
+      if (registry[ACTIVE_SERVER] === handle) delete registry[ACTIVE_SERVER];
+
+      if (wss === server) {
+        wss = undefined;
+        activeMode = 'off';
+      }
+      await ready;
+      // Stop listening first so the port is free for the next server right away
+      const standalone = httpServer;
+      const httpClosed = standalone?.listening
+        ? new Promise<void>((resolve) => standalone.close(() => resolve()))
+        : Promise.resolve();
+      if (server) {
+        // 1012: service restart, clients should reconnect
+        server.clients.forEach((client) => client.close(1012, 'Server restarting'));
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+      }
+      await httpClosed;
+    }
+  };
+
+  registry[ACTIVE_SERVER] = handle;
+  return handle;
 }
 
-console.log('WebSocket server started on port 8080'); 
\ No newline at end of file
+export async function stopWebSocketServer() {
+  await registry[ACTIVE_SERVER]?.stop();
+} 
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the modules that don't need a running indexer. `ponder:schema`
+// is a virtual module Ponder provides at runtime; the tests read the schema file.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "ponder:schema": fileURLToPath(new URL("./ponder.schema.ts", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});
@@ -0,0 +1,66 @@
+import { createServer } from "node:http";
+import { parseArgs } from "node:util";
+import { SIGNATURE_HEADER, verifyWebhookSignature } from "./src/webhook-signature";
+
+// Local webhook endpoint for trying out subscriptions. Prints each delivery,
+// checks its signature when a secret is given, and can answer with a fixed
+// status to exercise retries and the dead-letter table:
+//
+//   npx tsx webhook-receiver.ts [--port 9000] [--secret whsec_...] [--status 500]
+//
+// The secret can also come from WEBHOOK_SECRET. Requests with a bad signature
+// are answered with 401.
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: "string", default: "9000" },
+    secret: { type: "string", default: process.env.WEBHOOK_SECRET },
+    status: { type: "string" },
+  },
+});
+
+const port = Number(args.port);
+const forcedStatus = args.status === undefined ? undefined : Number(args.status);
+if (!Number.isInteger(port) || port < 1 || port > 65535) {
+  console.error("❌ --port must be a port number");
+  process.exit(2);
+}
+if (forcedStatus !== undefined && (!Number.isInteger(forcedStatus) || forcedStatus < 200 || forcedStatus > 599)) {
+  console.error("❌ --status must be an HTTP status between 200 and 599");
+  process.exit(2);
+}
+
+const server = createServer((request, response) => {
+  const chunks: Buffer[] = [];
+  request.on("data", (chunk: Buffer) => chunks.push(chunk));
+  request.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const event = request.headers["x-webhook-event"] ?? "?";
+    const attempt = request.headers["x-webhook-attempt"] ?? "?";
+
+    let signature = "not checked";
+    if (args.secret) {
+      const header = request.headers[SIGNATURE_HEADER.toLowerCase()];
+      const valid = verifyWebhookSignature(args.secret, Array.isArray(header) ? header[0] : header, body);
+      signature = valid ? "✅ valid" : "❌ invalid";
+      if (!valid && forcedStatus === undefined) {
+        response.writeHead(401).end();
+        console.log(`📨 ${event} (attempt ${attempt}) signature ${signature} -> 401`);
+        return;
+      }
+    }
+
+    const status = forcedStatus ?? 200;
+    response.writeHead(status).end();
+    console.log(`📨 ${event} (attempt ${attempt}) signature ${signature} -> ${status}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`🎧 Listening for webhooks on http://localhost:${port}/`);
+});